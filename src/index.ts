@@ -15,20 +15,53 @@ import { existsSync, mkdirSync, writeFileSync } from 'fs';
 import { homedir } from 'os';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import open from 'open';
 import { createServer } from 'http';
-import { URL } from 'url';
+import type { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import type { Session } from '@supabase/supabase-js';
 import {
   getSupabase,
   getSupabaseUrl,
-  saveSupabaseSession,
-  clearSupabaseSession,
+  signOut,
+  establishSession,
+  sessionFromAuthCode,
+  sessionFromRefreshToken,
   isAuthenticated,
   getSession,
   getCurrentUser,
+  isSessionRevoked,
 } from './lib/supabase.js';
+import {
+  DEFAULT_PROFILE,
+  authCommand,
+  cliCommand,
+  getActiveProfileName,
+  getProfileDir,
+  isValidProfileName,
+  listProfiles,
+  saveProfile,
+  setCurrentProfile,
+} from './lib/profiles.js';
+import { sessionStoreFromEnv } from './lib/session-store.js';
+import { updateProfile, type ProfileUpdate } from './lib/profile.js';
+import {
+  searchListings,
+  createListing,
+  getMyListings,
+  getConversations,
+  getMessages,
+  sendMessage,
+  parseRateLimit,
+  getSavedSearches,
+  runSavedSearch,
+} from './lib/marketplace.js';
+import { formatTable } from './lib/table.js';
+import { startDeviceAuth, pollDeviceAuth } from './lib/device-auth.js';
+import { handleAuthCallback, sessionUserName, type AuthCallbackResult } from './lib/auth-callback.js';
+import type { Listing, User } from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -38,7 +71,26 @@ const program = new Command();
 program
   .name('opengig')
   .description('Free, open freelance marketplace. Terminal-native. AI-assisted. No fees ever.')
-  .version('0.2.0');
+  .version('0.2.0')
+  .option('-p, --profile <name>', 'Use a named profile instead of the current one (see `opengig profiles`)')
+  .hook('preAction', () => {
+    const { profile } = program.opts();
+    if (profile) {
+      if (!isValidProfileName(profile)) {
+        console.log(chalk.red(`\n❌ Invalid profile name "${profile}" (letters, digits, - and _)\n`));
+        process.exit(1);
+      }
+      // Exported so the session code, Claude Code and the MCP server all see it
+      process.env.OPENGIG_PROFILE = profile;
+    }
+    // OPENGIG_PROFILE from the environment, or the current one in profiles.json
+    try {
+      getActiveProfileName();
+    } catch (error) {
+      console.log(chalk.red(`\n❌ ${error instanceof Error ? error.message : error}\n`));
+      process.exit(1);
+    }
+  });
 
 // Main command - launches Claude Code with opengig
 program
@@ -48,8 +100,7 @@ program
     // Check if authenticated
     const authenticated = await isAuthenticated();
     if (!authenticated) {
-      console.log(chalk.yellow('\n⚠️  Not logged in to opengig\n'));
-      console.log('Run ' + chalk.cyan('npx opengig auth') + ' first to connect your LinkedIn account.\n');
+      printLoginNeeded();
       process.exit(1);
     }
 
@@ -57,6 +108,9 @@ program
     await ensureMcpConfig();
 
     console.log(chalk.bold('\n🚀 Starting opengig...\n'));
+    if (getActiveProfileName() !== DEFAULT_PROFILE) {
+      console.log(chalk.dim(`Profile: ${getActiveProfileName()}`));
+    }
     console.log(chalk.dim('Launching Claude Code with marketplace tools\n'));
 
     // Launch claude in the opengig directory (or current directory)
@@ -90,13 +144,27 @@ program
   .description('Authenticate with LinkedIn')
   .option('-l, --logout', 'Log out of current session')
   .option('--status', 'Check authentication status')
+  .option('--headless', 'Log in from another device with a short code (no local browser needed)')
+  .option('--token-stdin', 'Log in with a refresh token read from stdin')
+  .option('--print-refresh-token', 'Print the saved refresh token (for --token-stdin on another machine)')
   .action(async (options) => {
+    if (options.printRefreshToken) {
+      const session = await getSession();
+      if (!session) {
+        console.error(chalk.yellow('Not logged in'));
+        process.exit(1);
+      }
+      console.log(session.refresh_token);
+      return;
+    }
+
     if (options.status) {
       const authenticated = await isAuthenticated();
       if (authenticated) {
         const session = await getSession();
         const user = await getCurrentUser();
         console.log(chalk.green('\n✓ Logged in'));
+        console.log(chalk.dim(`  Profile: ${getActiveProfileName()}`));
         if (user) {
           console.log(chalk.dim(`  Name: ${user.name}`));
           console.log(chalk.dim(`  Email: ${user.email || 'not set'}`));
@@ -106,20 +174,49 @@ program
         }
         console.log();
       } else {
-        console.log(chalk.yellow('\n⚠️  Not logged in\n'));
+        printLoginNeeded();
       }
       return;
     }
 
     if (options.logout) {
-      const db = getSupabase();
-      await db.auth.signOut();
-      clearSupabaseSession();
+      await signOut();
       console.log(chalk.green('\n✓ Logged out\n'));
       return;
     }
 
+    if (options.tokenStdin) {
+      try {
+        const refreshToken = (await readStdin()).trim();
+        if (!refreshToken) throw new Error('No refresh token on stdin');
+        completeLogin(await sessionFromRefreshToken(refreshToken));
+      } catch (error) {
+        console.log(chalk.red(`\n❌ Authentication failed: ${error instanceof Error ? error.message : error}\n`));
+        process.exit(1);
+      }
+      return;
+    }
+
     console.log(chalk.bold('\n🔗 opengig - LinkedIn Authentication\n'));
+
+    if (options.headless) {
+      try {
+        const device = await startDeviceAuth();
+        console.log('On any device with a browser, open:\n');
+        console.log('  ' + chalk.cyan(device.verification_uri_complete ?? device.verification_uri) + '\n');
+        console.log('and confirm this code: ' + chalk.bold(device.user_code));
+        console.log(chalk.dim(`(LinkedIn email must be verified; the code expires in ${Math.round(device.expires_in / 60)} minutes)\n`));
+        console.log(chalk.dim('Waiting for approval...'));
+
+        const tokens = await pollDeviceAuth(device);
+        completeLogin(await establishSession(tokens.access_token, tokens.refresh_token));
+      } catch (error) {
+        console.log(chalk.red(`\n❌ Authentication failed: ${error instanceof Error ? error.message : error}\n`));
+        process.exit(1);
+      }
+      return;
+    }
+
     console.log(chalk.dim('Opening browser for LinkedIn login...'));
     console.log(chalk.dim('(LinkedIn email must be verified)\n'));
 
@@ -131,6 +228,495 @@ program
     }
   });
 
+// Profile command - view or edit your public profile
+program
+  .command('profile')
+  .description('View or edit your public profile')
+  .option('--headline <text>', 'Professional headline')
+  .option('--phone <number>', 'Phone number (international format, e.g. +14155552671)')
+  .option('--phone-country <code>', 'Country code for national-format phone numbers (e.g. US)')
+  .option('--bio <text>', 'Short bio')
+  .option('--timezone <tz>', 'IANA timezone (e.g. America/New_York)')
+  .option('--link <url...>', 'Portfolio links (replaces existing links)')
+  .option('--skills <list>', 'Comma-separated default skills (replaces existing skills)')
+  .addHelpText('after', '\nPass an empty string (e.g. --phone "") to clear a field.')
+  .action(async (options) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      printLoginNeeded();
+      process.exit(1);
+    }
+
+    const update: ProfileUpdate = {
+      headline: options.headline,
+      phone: options.phone,
+      bio: options.bio,
+      timezone: options.timezone,
+      portfolio_links: options.link,
+      skills: options.skills !== undefined ? String(options.skills).split(',') : undefined,
+    };
+    const editing = Object.values(update).some((value) => value !== undefined);
+
+    let profile = user;
+    if (editing) {
+      try {
+        profile = await updateProfile(user.id, update, { phoneCountry: options.phoneCountry });
+        console.log(chalk.green('\n✓ Profile updated'));
+      } catch (error) {
+        console.log(chalk.red(`\n❌ Failed to update profile: ${error instanceof Error ? error.message : error}\n`));
+        process.exit(1);
+      }
+    } else {
+      console.log(chalk.bold('\n👤 Your opengig profile'));
+    }
+
+    console.log(chalk.dim(`  Name: ${profile.name}`));
+    console.log(chalk.dim(`  Headline: ${profile.headline || 'not set'}`));
+    console.log(chalk.dim(`  Phone: ${profile.phone || 'not set'}`));
+    console.log(chalk.dim(`  Bio: ${profile.bio || 'not set'}`));
+    console.log(chalk.dim(`  Timezone: ${profile.timezone || 'not set'}`));
+    console.log(chalk.dim(`  Links: ${profile.portfolio_links?.length ? profile.portfolio_links.join(', ') : 'none'}`));
+    console.log(chalk.dim(`  Skills: ${profile.skills?.length ? profile.skills.join(', ') : 'none'}`));
+    console.log();
+  });
+
+// ============================================
+// Marketplace commands (no Claude Code needed)
+// ============================================
+// Same data layer as the MCP tools (lib/marketplace.ts). Tables by default,
+// --json for scripts.
+
+program
+  .command('search')
+  .description('Search for jobs or freelancers')
+  .argument('<query...>', 'Search keywords (e.g. react aws)')
+  .option('-t, --type <type>', 'jobs (find work) or talent (hire)', 'jobs')
+  .option('--skills <list>', 'Comma-separated skills filter')
+  .option('--rate-min <amount>', 'Minimum hourly rate', toNumber)
+  .option('--rate-max <amount>', 'Maximum hourly rate', toNumber)
+  .option('--currency <code>', 'Currency of --rate-min/--rate-max', 'USD')
+  .option('--no-negotiable', 'When filtering by rate, leave out listings without a comparable rate')
+  .option('--remote', 'Only remote listings')
+  .option('--days <n>', 'Only listings posted within this many days', toNumber)
+  .option('--location <place>', 'City, state/province or country')
+  .option('--near <city>', 'Only listings within --radius km of this city')
+  .option('--radius <km>', 'Radius for --near', toNumber, 50)
+  .option('--timezone <tz>', 'Only listings whose timezone overlaps this IANA timezone')
+  .option('--tz-window <hours>', 'Maximum hours between timezones', toNumber)
+  .option('--no-semantic', 'Keyword-only search')
+  .option('-n, --limit <n>', 'Results per page', toNumber, 20)
+  .option('--cursor <cursor>', 'next_cursor from a previous page')
+  .option('--json', 'Print JSON')
+  .action(async (queryWords: string[], options) => {
+    if (options.type !== 'jobs' && options.type !== 'talent') {
+      fail('Invalid --type', 'use jobs or talent');
+    }
+    const user = await requireUser();
+
+    try {
+      const search = await searchListings(user, {
+        query: queryWords.join(' '),
+        type: options.type,
+        skills_filter: splitList(options.skills),
+        rate_min: options.rateMin,
+        rate_max: options.rateMax,
+        currency: options.currency,
+        include_negotiable: options.negotiable,
+        remote_only: options.remote,
+        posted_within_days: options.days,
+        location: options.location,
+        near: options.near,
+        radius_km: options.radius,
+        timezone: options.timezone,
+        timezone_window_hours: options.tzWindow,
+        semantic: options.semantic,
+        limit: options.limit,
+        cursor: options.cursor,
+      });
+
+      if (options.json) {
+        printJson(search);
+        return;
+      }
+      if (search.results.length === 0) {
+        console.log(chalk.dim('\nNo matches found. Try broadening your search.\n'));
+        return;
+      }
+
+      console.log();
+      console.log(
+        formatTable(
+          ['ID', 'TITLE', 'POSTED BY', 'RATE', 'WHERE', 'SKILLS'],
+          search.results.map(({ listing, user: poster }) => [
+            listing.id,
+            listing.title,
+            poster.name,
+            describeRate(listing),
+            describePlace(listing),
+            listing.skills.join(', '),
+          ])
+        )
+      );
+      printNextPage(search.next_cursor);
+    } catch (error) {
+      fail('Search failed', error);
+    }
+  });
+
+program
+  .command('post')
+  .description('Post a job or your availability')
+  .requiredOption('-t, --type <type>', 'job (hiring) or available (looking for work)')
+  .requiredOption('--title <text>', 'Listing title')
+  .requiredOption('--description <text>', 'Description of the role or your experience')
+  .requiredOption('--skills <list>', 'Comma-separated skills')
+  .option('--rate-min <amount>', 'Minimum rate (hourly, or total for fixed-price work)', toNumber)
+  .option('--rate-max <amount>', 'Maximum rate', toNumber)
+  .option('--rate-type <type>', 'hourly, fixed or negotiable')
+  .option('--currency <code>', 'Currency of the rate', 'USD')
+  .option('--hours <n>', 'Estimated hours, for fixed-price work', toNumber)
+  .option('--onsite', 'Remote work is not accepted')
+  .option('--location <place>', 'Location (e.g. "Austin, TX")')
+  .option('--timezone <tz>', 'IANA timezone you work in')
+  .option('--json', 'Print JSON')
+  .action(async (options) => {
+    if (options.type !== 'job' && options.type !== 'available') {
+      fail('Invalid --type', 'use job or available');
+    }
+    if (options.rateType && !['hourly', 'fixed', 'negotiable'].includes(options.rateType)) {
+      fail('Invalid --rate-type', 'use hourly, fixed or negotiable');
+    }
+    const user = await requireUser();
+
+    try {
+      const { listing, note } = await createListing(user, {
+        type: options.type,
+        title: options.title,
+        description: options.description,
+        skills: splitList(options.skills) ?? [],
+        rate_min: options.rateMin,
+        rate_max: options.rateMax,
+        rate_type: options.rateType,
+        currency: options.currency,
+        estimated_hours: options.hours,
+        remote: !options.onsite,
+        location: options.location,
+        timezone: options.timezone,
+      });
+
+      if (options.json) {
+        printJson({ listing, note });
+        return;
+      }
+      console.log(chalk.green(`\n✓ ${listing.type === 'job' ? 'Job' : 'Availability'} listing posted`));
+      console.log(chalk.dim(`  ID: ${listing.id}`));
+      console.log(chalk.dim(`  Expires: ${listing.expires_at ? new Date(listing.expires_at).toLocaleDateString() : 'never'}`));
+      if (note) console.log(chalk.yellow(`  Note: ${note}`));
+      console.log();
+    } catch (error) {
+      fail('Failed to post listing', error);
+    }
+  });
+
+program
+  .command('listings')
+  .description('Show your active listings')
+  .option('--json', 'Print JSON')
+  .action(async (options) => {
+    const user = await requireUser();
+
+    try {
+      const listings = await getMyListings(user);
+
+      if (options.json) {
+        printJson(listings);
+        return;
+      }
+      if (listings.length === 0) {
+        console.log(chalk.dim('\nNo active listings. Post one with `opengig post`.\n'));
+        return;
+      }
+
+      console.log();
+      console.log(
+        formatTable(
+          ['ID', 'TYPE', 'TITLE', 'RATE', 'EXPIRES'],
+          listings.map((l) => [
+            l.id,
+            l.type,
+            l.title,
+            describeRate(l),
+            l.days_until_expiration === null
+              ? 'never'
+              : l.expiration_status === 'expired'
+                ? 'expired'
+                : `in ${l.days_until_expiration}d`,
+          ])
+        )
+      );
+      console.log();
+    } catch (error) {
+      fail('Failed to get listings', error);
+    }
+  });
+
+program
+  .command('inbox')
+  .description('List your conversations, or read one')
+  .argument('[conversation_id]', 'Conversation to read (marks its messages read)')
+  .option('--no-mark-read', 'Leave messages unread')
+  .option('-n, --limit <n>', 'Conversations or messages per page', toNumber, 20)
+  .option('--cursor <cursor>', 'next_cursor from a previous page')
+  .option('--json', 'Print JSON')
+  .action(async (conversationId: string | undefined, options) => {
+    const user = await requireUser();
+
+    try {
+      if (conversationId) {
+        const page = await getMessages(user, conversationId, {
+          limit: options.limit,
+          cursor: options.cursor,
+          mark_as_read: options.markRead,
+        });
+
+        if (options.json) {
+          printJson(page);
+          return;
+        }
+        console.log();
+        for (const msg of page.messages) {
+          const who = msg.sent_by_me ? chalk.cyan('You') : chalk.magenta('Them');
+          console.log(`${who} ${chalk.dim(new Date(msg.timestamp).toLocaleString())}`);
+          console.log(`${msg.content}\n`);
+        }
+        if (page.messages.length === 0) console.log(chalk.dim('No messages yet.\n'));
+        printNextPage(page.next_cursor, 'older messages');
+        return;
+      }
+
+      const page = await getConversations(user, { limit: options.limit, cursor: options.cursor });
+
+      if (options.json) {
+        printJson(page);
+        return;
+      }
+      if (page.conversations.length === 0) {
+        console.log(chalk.dim('\nNo conversations yet.\n'));
+        return;
+      }
+
+      console.log();
+      console.log(
+        formatTable(
+          ['ID', 'WITH', 'LISTING', 'UNREAD', 'LAST MESSAGE'],
+          page.conversations.map((c) => [
+            c.id,
+            c.other_user.name,
+            c.listing?.title ?? '',
+            c.unread_count ? String(c.unread_count) : '',
+            c.last_message ? `${c.last_message.sent_by_me ? 'You: ' : ''}${c.last_message.preview}` : '',
+          ])
+        )
+      );
+      printNextPage(page.next_cursor);
+    } catch (error) {
+      fail('Failed to read inbox', error);
+    }
+  });
+
+program
+  .command('send')
+  .description('Send a message to another user')
+  .argument('<recipient_id>', 'User ID of the recipient')
+  .argument('<message...>', 'Message text')
+  .option('--listing <id>', 'Listing this is about (each listing has its own thread)')
+  .option('--json', 'Print JSON')
+  .action(async (recipientId: string, messageWords: string[], options) => {
+    const user = await requireUser();
+
+    try {
+      const sent = await sendMessage(user, recipientId, messageWords.join(' '), options.listing);
+
+      if (options.json) {
+        printJson(sent);
+        return;
+      }
+      console.log(chalk.green('\n✓ Message sent'));
+      console.log(chalk.dim(`  Conversation: ${sent.conversation_id}\n`));
+    } catch (error) {
+      const limited = parseRateLimit(error);
+      if (limited) {
+        fail('Rate limited', [limited.message, limited.hint].filter(Boolean).join('. '));
+      }
+      // RLS rejects messages between blocked users
+      if ((error as { code?: string }).code === '42501') {
+        fail('Message not sent', 'you cannot message this user');
+      }
+      fail('Failed to send message', error);
+    }
+  });
+
+program
+  .command('saved-searches')
+  .description('List your saved searches, or run one')
+  .option('--run <id>', 'Run a saved search and show current matches')
+  .option('-n, --limit <n>', 'Results per page when running', toNumber, 20)
+  .option('--cursor <cursor>', 'next_cursor from a previous page')
+  .option('--json', 'Print JSON')
+  .action(async (options) => {
+    const user = await requireUser();
+
+    try {
+      if (options.run) {
+        const run = await runSavedSearch(user, options.run, { limit: options.limit, cursor: options.cursor });
+        if (!run) {
+          fail('Saved search not found', options.run);
+        }
+
+        if (options.json) {
+          printJson(run);
+          return;
+        }
+        console.log(chalk.bold(`\n🔎 ${run.saved_search.name}\n`));
+        if (run.results.length === 0) {
+          console.log(chalk.dim('No current matches.\n'));
+          return;
+        }
+        console.log(
+          formatTable(
+            ['ID', 'TITLE', 'POSTED BY', 'RATE', 'WHERE'],
+            run.results.map(({ listing, user: poster }) => [
+              listing.id,
+              listing.title,
+              poster.name,
+              describeRate(listing),
+              describePlace(listing),
+            ])
+          )
+        );
+        printNextPage(run.next_cursor);
+        return;
+      }
+
+      const searches = await getSavedSearches(user);
+
+      if (options.json) {
+        printJson(searches);
+        return;
+      }
+      if (searches.length === 0) {
+        console.log(chalk.dim('\nNo saved searches. Ask Claude to save one while searching.\n'));
+        return;
+      }
+
+      console.log();
+      console.log(
+        formatTable(
+          ['ID', 'NAME', 'TYPE', 'QUERY', 'SKILLS', 'LAST CHECKED'],
+          searches.map((s) => [
+            s.id,
+            s.name,
+            s.search_type,
+            s.query ?? '',
+            s.skills_filter.join(', '),
+            s.last_checked_at ? new Date(s.last_checked_at).toLocaleDateString() : 'never',
+          ])
+        )
+      );
+      console.log();
+    } catch (error) {
+      fail('Failed to get saved searches', error);
+    }
+  });
+
+// Whoami command - active profile and its login
+program
+  .command('whoami')
+  .description('Show the active profile and who is logged in to it')
+  .option('--json', 'Print JSON')
+  .action(async (options) => {
+    const profile = getActiveProfileName();
+    const session = await getSession();
+    const user = session ? await getCurrentUser() : null;
+
+    if (options.json) {
+      printJson({
+        profile,
+        supabase_url: getSupabaseUrl(),
+        user: session
+          ? { id: session.user.id, name: user?.name ?? sessionUserName(session), email: user?.email ?? session.user.email }
+          : null,
+        session_revoked: isSessionRevoked(),
+      });
+      return;
+    }
+
+    console.log(chalk.bold(`\nProfile: ${profile}`));
+    console.log(chalk.dim(`Supabase: ${getSupabaseUrl()}`));
+    if (session) {
+      const email = user?.email ?? session.user.email;
+      console.log(chalk.green(`✓ ${user?.name ?? sessionUserName(session)}`) + (email ? chalk.dim(` <${email}>`) : ''));
+      console.log();
+    } else {
+      printLoginNeeded();
+    }
+  });
+
+// Profiles command - list, add and switch profiles
+program
+  .command('profiles')
+  .description('List profiles, or add and switch between them')
+  .option('--use <name>', 'Make a profile the current one')
+  .option('--add <name>', 'Add a profile (or update its settings)')
+  .option('--supabase-url <url>', 'With --add: Supabase project URL for this profile')
+  .option('--supabase-anon-key <key>', 'With --add: Supabase anon key for this profile')
+  .option('--json', 'Print JSON')
+  .addHelpText('after', '\nLog in to a profile with `opengig auth --profile <name>`; pass an empty string to clear a setting.')
+  .action(async (options) => {
+    try {
+      if (options.add) {
+        saveProfile({ name: options.add, supabase_url: options.supabaseUrl, supabase_anon_key: options.supabaseAnonKey });
+        console.log(chalk.green(`\n✓ Saved profile ${options.add}`));
+        console.log('Log in with ' + chalk.cyan(authCommand(options.add)) + '\n');
+        return;
+      }
+      if (options.use) {
+        setCurrentProfile(options.use);
+        console.log(chalk.green(`\n✓ Now using profile ${options.use}\n`));
+        return;
+      }
+    } catch (error) {
+      fail('Could not update profiles', error);
+    }
+
+    const current = getActiveProfileName();
+    const profiles = await Promise.all(
+      listProfiles().map(async (profile) => {
+        // The saved session is enough to say who; no network round trip
+        const session = await (await sessionStoreFromEnv(getProfileDir(profile.name))).load();
+        return { ...profile, current: profile.name === current, email: session?.user?.email ?? null };
+      })
+    );
+
+    if (options.json) {
+      printJson(profiles);
+      return;
+    }
+    console.log();
+    console.log(
+      formatTable(
+        ['', 'PROFILE', 'LOGGED IN AS', 'SUPABASE'],
+        profiles.map((p) => [
+          p.current ? '*' : '',
+          p.name,
+          p.email ?? 'not logged in',
+          p.supabase_url ?? 'default',
+        ])
+      )
+    );
+    console.log();
+  });
+
 // Config command - show/set configuration
 program
   .command('config')
@@ -152,6 +738,66 @@ program.parse();
 // Helper Functions
 // ============================================
 
+// Exit with the not-logged-in hint unless there's a signed-in user
+async function requireUser(): Promise<User> {
+  const user = await getCurrentUser();
+  if (!user) {
+    printLoginNeeded();
+    process.exit(1);
+  }
+  return user;
+}
+
+function printLoginNeeded(): void {
+  if (isSessionRevoked()) {
+    console.log(chalk.yellow('\n⚠️  Your opengig session was revoked or has expired\n'));
+    console.log('Run ' + chalk.cyan(authCommand()) + ' to log in again.\n');
+  } else {
+    console.log(chalk.yellow('\n⚠️  Not logged in\n'));
+    console.log('Run ' + chalk.cyan(authCommand()) + ' first to connect your LinkedIn account.\n');
+  }
+}
+
+function fail(prefix: string, error: unknown): never {
+  console.error(chalk.red(`\n❌ ${prefix}: ${error instanceof Error ? error.message : error}\n`));
+  process.exit(1);
+}
+
+function printJson(data: unknown): void {
+  console.log(JSON.stringify(data, null, 2));
+}
+
+function printNextPage(cursor: string | null, what = 'more results'): void {
+  console.log(cursor ? chalk.dim(`\nFor ${what}: --cursor ${cursor}\n`) : '');
+}
+
+function toNumber(value: string): number {
+  const n = Number(value);
+  if (!value.trim() || Number.isNaN(n)) {
+    throw new InvalidArgumentError('Not a number.');
+  }
+  return n;
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  return value === undefined ? undefined : value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+// e.g. "80-120 EUR/hr", "5000 USD fixed", "negotiable"
+function describeRate(l: Listing): string {
+  if (l.rate_type === 'negotiable' || (!l.rate_min && !l.rate_max)) return 'negotiable';
+
+  const amount =
+    l.rate_min && l.rate_max && l.rate_min !== l.rate_max ? `${l.rate_min}-${l.rate_max}` : `${l.rate_min || l.rate_max}`;
+  return l.rate_type === 'fixed' ? `${amount} ${l.currency} fixed` : `${amount} ${l.currency}/hr`;
+}
+
+function describePlace(l: Listing): string {
+  const place = l.location || [l.city, l.region, l.country].filter(Boolean).join(', ');
+  if (l.remote) return place ? `remote (${place})` : 'remote';
+  return place || 'on-site';
+}
+
 async function ensureMcpConfig(): Promise<void> {
   // Claude Code looks for MCP config in ~/.claude/claude_mcp_config.json
   const claudeDir = join(homedir(), '.claude');
@@ -175,12 +821,14 @@ async function ensureMcpConfig(): Promise<void> {
     }
   }
 
-  // Add/update opengig server
+  // Add/update this profile's opengig server ("opengig", "opengig-work", ...)
+  const profile = getActiveProfileName();
   config.mcpServers = config.mcpServers || {};
-  config.mcpServers['opengig'] = {
+  config.mcpServers[profile === DEFAULT_PROFILE ? 'opengig' : `opengig-${profile}`] = {
     command: 'node',
     args: [mcpServerPath],
     env: {
+      OPENGIG_PROFILE: profile,
       OPENGIG_SUPABASE_URL: process.env.OPENGIG_SUPABASE_URL || '',
       OPENGIG_SUPABASE_ANON_KEY: process.env.OPENGIG_SUPABASE_ANON_KEY || '',
     },
@@ -190,227 +838,68 @@ async function ensureMcpConfig(): Promise<void> {
 }
 
 async function performSupabaseAuth(): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const PORT = 3847;
-    const redirectTo = `http://localhost:${PORT}/callback`;
-
-    const server = createServer(async (req, res) => {
-      const url = new URL(req.url || '', `http://localhost:${PORT}`);
-
-      if (url.pathname === '/callback') {
-        // Supabase redirects with tokens in the URL fragment (#access_token=...)
-        // We need to serve a page that extracts them and sends them to us
-        if (url.hash || !url.searchParams.has('access_token')) {
-          // Serve a page that extracts hash params and posts them back
-          res.writeHead(200, { 'Content-Type': 'text/html' });
-          res.end(extractTokenPage(PORT));
-          return;
-        }
-
-        // Handle the token extraction callback
-        const accessToken = url.searchParams.get('access_token');
-        const refreshToken = url.searchParams.get('refresh_token');
-        const expiresIn = url.searchParams.get('expires_in');
-        const error = url.searchParams.get('error');
-        const errorDescription = url.searchParams.get('error_description');
-
-        if (error) {
-          res.writeHead(400, { 'Content-Type': 'text/html' });
-          res.end(errorPage(errorDescription || error));
-          server.close();
-          reject(new Error(errorDescription || error));
-          return;
-        }
+  const db = getSupabase();
+  const state = randomBytes(16).toString('base64url');
 
-        if (!accessToken) {
-          res.writeHead(400, { 'Content-Type': 'text/html' });
-          res.end(errorPage('No access token received'));
-          server.close();
-          reject(new Error('No access token'));
-          return;
-        }
-
-        try {
-          const db = getSupabase();
-
-          // Set the session in Supabase client
-          const { data, error: sessionError } = await db.auth.setSession({
-            access_token: accessToken,
-            refresh_token: refreshToken || '',
-          });
-
-          if (sessionError) throw sessionError;
-          if (!data.session) throw new Error('No session returned');
-
-          // Save session to file for persistence
-          saveSupabaseSession(data.session);
-
-          // Get user info
-          const userName = data.session.user.user_metadata?.full_name ||
-                          data.session.user.user_metadata?.name ||
-                          data.session.user.email ||
-                          'User';
-
-          res.writeHead(200, { 'Content-Type': 'text/html' });
-          res.end(successPage(userName));
-          server.close();
-
-          console.log(chalk.green(`\n✓ Welcome to opengig, ${userName}!\n`));
-          console.log('Run ' + chalk.cyan('npx opengig') + ' to start the marketplace.\n');
-          resolve();
-        } catch (err) {
-          res.writeHead(500, { 'Content-Type': 'text/html' });
-          res.end(errorPage(String(err)));
-          server.close();
-          reject(err);
-        }
-      } else if (url.pathname === '/token') {
-        // POST endpoint to receive tokens from the extraction page
-        let body = '';
-        req.on('data', chunk => { body += chunk; });
-        req.on('end', async () => {
-          try {
-            const params = new URLSearchParams(body);
-            const accessToken = params.get('access_token');
-            const refreshToken = params.get('refresh_token');
-            const error = params.get('error');
-            const errorDescription = params.get('error_description');
-
-            if (error) {
-              res.writeHead(400, { 'Content-Type': 'text/html' });
-              res.end(errorPage(errorDescription || error));
-              server.close();
-              reject(new Error(errorDescription || error));
-              return;
-            }
-
-            if (!accessToken) {
-              res.writeHead(400, { 'Content-Type': 'text/html' });
-              res.end(errorPage('No access token received'));
-              server.close();
-              reject(new Error('No access token'));
-              return;
-            }
-
-            const db = getSupabase();
-
-            // Set the session in Supabase client
-            const { data, error: sessionError } = await db.auth.setSession({
-              access_token: accessToken,
-              refresh_token: refreshToken || '',
-            });
-
-            if (sessionError) throw sessionError;
-            if (!data.session) throw new Error('No session returned');
-
-            // Save session to file for persistence
-            saveSupabaseSession(data.session);
-
-            // Get user info
-            const userName = data.session.user.user_metadata?.full_name ||
-                            data.session.user.user_metadata?.name ||
-                            data.session.user.email ||
-                            'User';
-
-            res.writeHead(200, { 'Content-Type': 'text/html' });
-            res.end(successPage(userName));
-            server.close();
-
-            console.log(chalk.green(`\n✓ Welcome to opengig, ${userName}!\n`));
-            console.log('Run ' + chalk.cyan('npx opengig') + ' to start the marketplace.\n');
-            resolve();
-          } catch (err) {
-            res.writeHead(500, { 'Content-Type': 'text/html' });
-            res.end(errorPage(String(err)));
-            server.close();
-            reject(err);
-          }
-        });
-      } else {
-        res.writeHead(404);
-        res.end('Not found');
-      }
-    });
-
-    server.listen(PORT, async () => {
-      const db = getSupabase();
-
-      // Use Supabase's built-in LinkedIn OIDC provider
-      const { data, error } = await db.auth.signInWithOAuth({
-        provider: 'linkedin_oidc',
-        options: {
-          redirectTo,
-          skipBrowserRedirect: true,
-        },
-      });
+  let finish!: (result: AuthCallbackResult) => void;
+  const finished = new Promise<AuthCallbackResult>((resolve) => { finish = resolve; });
 
-      if (error) {
-        server.close();
-        reject(error);
-        return;
-      }
+  const server = createServer(async (req, res) => {
+    const result = await handleAuthCallback(req, res, { state, exchangeCode: sessionFromAuthCode });
+    if (result) finish(result);
+  });
 
-      if (data.url) {
-        open(data.url);
-      }
+  // Any free port on loopback only; the project's redirect allow-list
+  // must accept http://127.0.0.1:*/callback
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+
+  // Timeout after 5 minutes
+  const timeout = setTimeout(() => finish({ error: new Error('Authentication timed out') }), 5 * 60 * 1000);
+
+  try {
+    // Use Supabase's built-in LinkedIn OIDC provider
+    const { data, error } = await db.auth.signInWithOAuth({
+      provider: 'linkedin_oidc',
+      options: {
+        redirectTo: `http://127.0.0.1:${port}/callback?state=${state}`,
+        skipBrowserRedirect: true,
+      },
     });
+    if (error) throw error;
 
-    // Timeout after 5 minutes
-    setTimeout(() => {
-      server.close();
-      reject(new Error('Authentication timed out'));
-    }, 5 * 60 * 1000);
-  });
-}
+    if (data.url) {
+      open(data.url);
+    }
 
-// Page to extract tokens from URL hash (Supabase uses implicit grant)
-function extractTokenPage(port: number): string {
-  return `<!DOCTYPE html>
-<html><head><title>opengig - Authenticating...</title>
-<style>
-body{font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;display:flex;justify-content:center;align-items:center;height:100vh;margin:0;background:#0a0a0a;color:#fff}
-.container{text-align:center}h1{color:#3b82f6}p{color:#888}
-</style></head><body>
-<div class="container"><h1>🔄 Authenticating...</h1><p>Please wait while we complete your login.</p></div>
-<script>
-  // Extract tokens from URL hash
-  const hash = window.location.hash.substring(1);
-  if (hash) {
-    // POST tokens to our local server
-    fetch('http://localhost:${port}/token', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: hash
-    }).then(r => r.text()).then(html => {
-      document.body.innerHTML = html;
-    }).catch(e => {
-      document.body.innerHTML = '<div class="container"><h1 style="color:#ef4444">✗ Error</h1><p>' + e + '</p></div>';
-    });
-  } else {
-    document.body.innerHTML = '<div class="container"><h1 style="color:#ef4444">✗ Error</h1><p>No authentication data received</p></div>';
+    const result = await finished;
+    if ('error' in result) throw result.error;
+    completeLogin(result.session);
+  } finally {
+    clearTimeout(timeout);
+    server.close();
   }
-</script>
-</body></html>`;
 }
 
-function successPage(name: string): string {
-  return `<!DOCTYPE html>
-<html><head><title>opengig - Success</title>
-<style>
-body{font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;display:flex;justify-content:center;align-items:center;height:100vh;margin:0;background:#0a0a0a;color:#fff}
-.container{text-align:center}h1{color:#22c55e}p{color:#888}
-</style></head><body>
-<div class="container"><h1>✓ Welcome to opengig, ${name}!</h1><p>You can close this window and return to your terminal.</p></div>
-</body></html>`;
+// Remember the profile a login was made under, and greet
+function completeLogin(session: Session): void {
+  const profile = getActiveProfileName();
+  if (profile !== DEFAULT_PROFILE) {
+    saveProfile({ name: profile });
+  }
+  const suffix = profile === DEFAULT_PROFILE ? '' : ` (profile ${profile})`;
+  console.log(chalk.green(`\n✓ Welcome to opengig, ${sessionUserName(session)}!${suffix}\n`));
+  console.log('Run ' + chalk.cyan(cliCommand()) + ' to start the marketplace.\n');
 }
 
-function errorPage(error: string): string {
-  return `<!DOCTYPE html>
-<html><head><title>opengig - Error</title>
-<style>
-body{font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;display:flex;justify-content:center;align-items:center;height:100vh;margin:0;background:#0a0a0a;color:#fff}
-.container{text-align:center}h1{color:#ef4444}p{color:#888}
-</style></head><body>
-<div class="container"><h1>✗ Authentication Failed</h1><p>${error}</p></div>
-</body></html>`;
+async function readStdin(): Promise<string> {
+  let data = '';
+  process.stdin.setEncoding('utf-8');
+  for await (const chunk of process.stdin) {
+    data += chunk;
+  }
+  return data;
 }
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { getFunctionsUrl, getSupabaseAnonKey, getSession } from './supabase.js';
+import type { Match } from '../types.js';
+
+// The ai-match edge function isn't deployed or can't be reached.
+// Callers should fall back to non-AI search.
+export class AiMatchUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiMatchUnavailableError';
+  }
+}
+
+const matchSchema = z.object({
+  listing: z.looseObject({
+    id: z.string(),
+    user_id: z.string(),
+    type: z.enum(['job', 'available']),
+    title: z.string(),
+    description: z.string(),
+    skills: z.array(z.string()),
+    remote: z.boolean(),
+    // Older deployments of the function don't return a currency
+    currency: z.string().default('USD'),
+    created_at: z.string(),
+    active: z.boolean(),
+  }),
+  user: z.looseObject({
+    id: z.string(),
+    name: z.string(),
+    created_at: z.string(),
+    last_active: z.string(),
+  }),
+  score: z.number(),
+  reasons: z.array(z.string()),
+});
+
+const responseSchema = z.object({
+  matches: z.array(matchSchema),
+});
+
+export interface AiMatchOptions {
+  // Injectable for tests against a stubbed endpoint
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+  // Defaults to the current user's session
+  accessToken?: string;
+}
+
+// Rank listings for a query with the ai-match edge function,
+// authenticated as the current user
+export async function requestAiMatches(
+  query: string,
+  type: 'jobs' | 'talent',
+  options: AiMatchOptions = {}
+): Promise<Match[]> {
+  const accessToken = options.accessToken ?? (await getSession())?.access_token;
+  if (!accessToken) {
+    throw new Error('Not authenticated');
+  }
+
+  let response: Response;
+  try {
+    response = await (options.fetch ?? fetch)(`${getFunctionsUrl()}/ai-match`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+        apikey: getSupabaseAnonKey(),
+      },
+      body: JSON.stringify({ query, type }),
+      signal: AbortSignal.timeout(options.timeoutMs ?? 30_000),
+    });
+  } catch (error) {
+    throw new AiMatchUnavailableError(`ai-match function unreachable: ${error}`);
+  }
+
+  // 404: function not deployed; 5xx: function crashed or gateway error
+  if (response.status === 404 || response.status >= 500) {
+    throw new AiMatchUnavailableError(`ai-match function unavailable (HTTP ${response.status})`);
+  }
+
+  const body: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = (body as { error?: string } | null)?.error;
+    throw new Error(message || `ai-match request failed (HTTP ${response.status})`);
+  }
+
+  const parsed = responseSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new AiMatchUnavailableError('ai-match function returned an unexpected response');
+  }
+  return parsed.data.matches as Match[];
+}
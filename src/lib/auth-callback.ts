@@ -0,0 +1,106 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Session } from '@supabase/supabase-js';
+
+// Loopback redirect handling for `opengig auth` (PKCE code exchange).
+// Kept apart from the server so it can be driven with plain requests.
+
+export interface AuthCallbackOptions {
+  // Random value sent in redirectTo; anything else hitting the port is ignored
+  state: string;
+  // Exchange the authorization code for a session (the client holds the
+  // PKCE code verifier, so a code from another flow can't be redeemed)
+  exchangeCode: (code: string) => Promise<Session>;
+}
+
+export type AuthCallbackResult = { session: Session } | { error: Error };
+
+// Answer one request to the callback server. Resolves with the outcome once
+// the login has finished (either way), or null if the request isn't part of
+// this login and the server should keep waiting.
+export async function handleAuthCallback(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: AuthCallbackOptions
+): Promise<AuthCallbackResult | null> {
+  const url = new URL(req.url || '/', 'http://127.0.0.1');
+
+  if (req.method !== 'GET' || url.pathname !== '/callback') {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not found');
+    return null;
+  }
+
+  if (url.searchParams.get('state') !== options.state) {
+    send(res, 400, errorPage('This login link is not from the current `opengig auth` session.'));
+    return null;
+  }
+
+  const error = url.searchParams.get('error');
+  if (error) {
+    const message = url.searchParams.get('error_description') || error;
+    send(res, 400, errorPage(message));
+    return { error: new Error(message) };
+  }
+
+  const code = url.searchParams.get('code');
+  if (!code) {
+    send(res, 400, errorPage('No authorization code received'));
+    return { error: new Error('No authorization code received') };
+  }
+
+  try {
+    const session = await options.exchangeCode(code);
+    send(res, 200, successPage(sessionUserName(session)));
+    return { session };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    send(res, 500, errorPage(message));
+    return { error: err instanceof Error ? err : new Error(message) };
+  }
+}
+
+export function sessionUserName(session: Session): string {
+  return session.user.user_metadata?.full_name ||
+    session.user.user_metadata?.name ||
+    session.user.email ||
+    'User';
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function send(res: ServerResponse, status: number, html: string): void {
+  res.writeHead(status, {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Cache-Control': 'no-store',
+  });
+  res.end(html);
+}
+
+function successPage(name: string): string {
+  return `<!DOCTYPE html>
+<html><head><title>opengig - Success</title>
+<style>
+body{font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;display:flex;justify-content:center;align-items:center;height:100vh;margin:0;background:#0a0a0a;color:#fff}
+.container{text-align:center}h1{color:#22c55e}p{color:#888}
+</style></head><body>
+<div class="container"><h1>✓ Welcome to opengig, ${escapeHtml(name)}!</h1><p>You can close this window and return to your terminal.</p></div>
+</body></html>`;
+}
+
+function errorPage(error: string): string {
+  return `<!DOCTYPE html>
+<html><head><title>opengig - Error</title>
+<style>
+body{font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;display:flex;justify-content:center;align-items:center;height:100vh;margin:0;background:#0a0a0a;color:#fff}
+.container{text-align:center}h1{color:#ef4444}p{color:#888}
+</style></head><body>
+<div class="container"><h1>✗ Authentication Failed</h1><p>${escapeHtml(error)}</p></div>
+</body></html>`;
+}
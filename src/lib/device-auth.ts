@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { getFunctionsUrl, getSupabaseAnonKey } from './supabase.js';
+
+// The device login expired, was refused, or the endpoint misbehaved
+export class DeviceAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeviceAuthError';
+  }
+}
+
+const deviceCodeSchema = z.object({
+  device_code: z.string(),
+  user_code: z.string(),
+  verification_uri: z.string(),
+  verification_uri_complete: z.string().optional(),
+  expires_in: z.number(),
+  interval: z.number().default(5),
+});
+
+const tokensSchema = z.object({
+  access_token: z.string(),
+  refresh_token: z.string(),
+});
+
+export type DeviceCode = z.infer<typeof deviceCodeSchema>;
+export type DeviceTokens = z.infer<typeof tokensSchema>;
+
+export interface DeviceAuthOptions {
+  // Injectable for tests against a fake token endpoint
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+// Ask the device-auth edge function for a device code and the short
+// user code to enter on another device
+export async function startDeviceAuth(options: DeviceAuthOptions = {}): Promise<DeviceCode> {
+  const { response, body } = await call({ action: 'start' }, options);
+  if (!response.ok) {
+    throw new DeviceAuthError(describeError(body) || `device-auth request failed (HTTP ${response.status})`);
+  }
+
+  const parsed = deviceCodeSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new DeviceAuthError('device-auth function returned an unexpected response');
+  }
+  return parsed.data;
+}
+
+// Poll until the user approves the code elsewhere (RFC 8628 section 3.4),
+// backing off on slow_down and giving up when the code expires
+export async function pollDeviceAuth(device: DeviceCode, options: DeviceAuthOptions = {}): Promise<DeviceTokens> {
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const deadline = Date.now() + device.expires_in * 1000;
+  let interval = device.interval;
+  let unreachable: DeviceAuthError | null = null;
+
+  while (Date.now() < deadline) {
+    await sleep(interval * 1000);
+
+    let result: Awaited<ReturnType<typeof call>>;
+    try {
+      result = await call({ action: 'poll', device_code: device.device_code }, options);
+      unreachable = null;
+    } catch (error) {
+      // Like a 5xx: a dropped connection or timeout doesn't end the login
+      unreachable = error as DeviceAuthError;
+      continue;
+    }
+
+    const { response, body } = result;
+    if (response.ok) {
+      const parsed = tokensSchema.safeParse(body);
+      if (!parsed.success) {
+        throw new DeviceAuthError('device-auth function returned an unexpected response');
+      }
+      return parsed.data;
+    }
+
+    // 5xx and gateway errors are worth riding out; the code is still valid
+    if (response.status >= 500) continue;
+
+    switch ((body as { error?: string } | null)?.error) {
+      case 'authorization_pending':
+        continue;
+      case 'slow_down':
+        interval += 5;
+        continue;
+      case 'expired_token':
+        throw new DeviceAuthError('The code expired before it was approved');
+      case 'access_denied':
+        throw new DeviceAuthError('The login was denied');
+      default:
+        throw new DeviceAuthError(describeError(body) || `device-auth poll failed (HTTP ${response.status})`);
+    }
+  }
+  throw unreachable ?? new DeviceAuthError('The code expired before it was approved');
+}
+
+async function call(
+  payload: Record<string, string>,
+  options: DeviceAuthOptions
+): Promise<{ response: Response; body: unknown }> {
+  let response: Response;
+  try {
+    response = await (options.fetch ?? fetch)(`${getFunctionsUrl()}/device-auth`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${getSupabaseAnonKey()}`,
+        apikey: getSupabaseAnonKey(),
+      },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(options.timeoutMs ?? 30_000),
+    });
+  } catch (error) {
+    throw new DeviceAuthError(`device-auth function unreachable: ${error}`);
+  }
+
+  const body: unknown = await response.json().catch(() => null);
+  return { response, body };
+}
+
+function describeError(body: unknown): string | undefined {
+  const error = body as { error?: string; error_description?: string } | null;
+  return error?.error_description || error?.error;
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { getFunctionsUrl, getSupabaseAnonKey, getSession } from './supabase.js';
+
+// Must match the vector(384) columns from 015_listing_embeddings.sql
+export const EMBEDDING_DIMENSIONS = 384;
+
+const responseSchema = z.object({
+  embedding: z.array(z.number()).length(EMBEDDING_DIMENSIONS),
+});
+
+export interface EmbeddingOptions {
+  // Injectable for tests against a stubbed endpoint
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+}
+
+// Embed a search query with the embed edge function, authenticated as the
+// current user. Returns null when the function isn't deployed, can't be
+// reached or fails, so callers can fall back to full-text search.
+export async function requestQueryEmbedding(
+  text: string,
+  options: EmbeddingOptions = {}
+): Promise<number[] | null> {
+  const session = await getSession();
+  if (!session || !text.trim()) {
+    return null;
+  }
+
+  try {
+    const response = await (options.fetch ?? fetch)(`${getFunctionsUrl()}/embed`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+        apikey: getSupabaseAnonKey(),
+      },
+      body: JSON.stringify({ input: text }),
+      signal: AbortSignal.timeout(options.timeoutMs ?? 10_000),
+    });
+    if (!response.ok) {
+      return null;
+    }
+
+    const parsed = responseSchema.safeParse(await response.json());
+    return parsed.success ? parsed.data.embedding : null;
+  } catch {
+    return null;
+  }
+}
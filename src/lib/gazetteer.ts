@@ -0,0 +1,245 @@
+// Offline gazetteer for geocoding listing and search locations
+// Deliberately small: major tech/freelance hubs, countries and US/Canadian
+// regions. Unknown places still work as free text, just without coordinates.
+
+// [city, region code, country code, latitude, longitude, IANA timezone, aliases]
+export type CityEntry = [string, string, string, number, number, string, string[]];
+
+// [country code, name, timezone if the country has one main zone, aliases]
+export type CountryEntry = [string, string, string | null, string[]];
+
+// [region code, name, country code, main timezone]
+export type RegionEntry = [string, string, string, string];
+
+export const CITIES: CityEntry[] = [
+  ['New York', 'NY', 'US', 40.7128, -74.006, 'America/New_York', ['nyc', 'new york city', 'manhattan', 'brooklyn']],
+  ['Boston', 'MA', 'US', 42.3601, -71.0589, 'America/New_York', []],
+  ['Philadelphia', 'PA', 'US', 39.9526, -75.1652, 'America/New_York', ['philly']],
+  ['Washington', 'DC', 'US', 38.9072, -77.0369, 'America/New_York', ['washington dc', 'dc']],
+  ['Atlanta', 'GA', 'US', 33.749, -84.388, 'America/New_York', ['atl']],
+  ['Miami', 'FL', 'US', 25.7617, -80.1918, 'America/New_York', []],
+  ['Raleigh', 'NC', 'US', 35.7796, -78.6382, 'America/New_York', ['research triangle']],
+  ['Pittsburgh', 'PA', 'US', 40.4406, -79.9959, 'America/New_York', []],
+  ['Detroit', 'MI', 'US', 42.3314, -83.0458, 'America/Detroit', []],
+  ['Chicago', 'IL', 'US', 41.8781, -87.6298, 'America/Chicago', ['chi']],
+  ['Austin', 'TX', 'US', 30.2672, -97.7431, 'America/Chicago', ['atx']],
+  ['Dallas', 'TX', 'US', 32.7767, -96.797, 'America/Chicago', ['dfw']],
+  ['Houston', 'TX', 'US', 29.7604, -95.3698, 'America/Chicago', []],
+  ['Minneapolis', 'MN', 'US', 44.9778, -93.265, 'America/Chicago', ['twin cities']],
+  ['Nashville', 'TN', 'US', 36.1627, -86.7816, 'America/Chicago', []],
+  ['Denver', 'CO', 'US', 39.7392, -104.9903, 'America/Denver', []],
+  ['Boulder', 'CO', 'US', 40.015, -105.2705, 'America/Denver', []],
+  ['Salt Lake City', 'UT', 'US', 40.7608, -111.891, 'America/Denver', ['slc']],
+  ['Phoenix', 'AZ', 'US', 33.4484, -112.074, 'America/Phoenix', []],
+  ['Los Angeles', 'CA', 'US', 34.0522, -118.2437, 'America/Los_Angeles', ['la', 'l.a.']],
+  ['San Francisco', 'CA', 'US', 37.7749, -122.4194, 'America/Los_Angeles', ['sf', 'san fran', 'bay area']],
+  ['San Jose', 'CA', 'US', 37.3382, -121.8863, 'America/Los_Angeles', ['silicon valley']],
+  ['Oakland', 'CA', 'US', 37.8044, -122.2712, 'America/Los_Angeles', []],
+  ['San Diego', 'CA', 'US', 32.7157, -117.1611, 'America/Los_Angeles', []],
+  ['Seattle', 'WA', 'US', 47.6062, -122.3321, 'America/Los_Angeles', []],
+  ['Portland', 'OR', 'US', 45.5152, -122.6784, 'America/Los_Angeles', ['pdx']],
+  ['Las Vegas', 'NV', 'US', 36.1699, -115.1398, 'America/Los_Angeles', ['vegas']],
+  ['Honolulu', 'HI', 'US', 21.3069, -157.8583, 'Pacific/Honolulu', []],
+  ['Anchorage', 'AK', 'US', 61.2181, -149.9003, 'America/Anchorage', []],
+  ['Toronto', 'ON', 'CA', 43.6532, -79.3832, 'America/Toronto', ['gta']],
+  ['Ottawa', 'ON', 'CA', 45.4215, -75.6972, 'America/Toronto', []],
+  ['Montreal', 'QC', 'CA', 45.5017, -73.5673, 'America/Toronto', ['montréal']],
+  ['Vancouver', 'BC', 'CA', 49.2827, -123.1207, 'America/Vancouver', []],
+  ['Calgary', 'AB', 'CA', 51.0447, -114.0719, 'America/Edmonton', []],
+  ['Mexico City', 'CMX', 'MX', 19.4326, -99.1332, 'America/Mexico_City', ['cdmx']],
+  ['Guadalajara', 'JAL', 'MX', 20.6597, -103.3496, 'America/Mexico_City', []],
+  ['São Paulo', 'SP', 'BR', -23.5505, -46.6333, 'America/Sao_Paulo', ['sao paulo']],
+  ['Rio de Janeiro', 'RJ', 'BR', -22.9068, -43.1729, 'America/Sao_Paulo', ['rio']],
+  ['Buenos Aires', 'C', 'AR', -34.6037, -58.3816, 'America/Argentina/Buenos_Aires', []],
+  ['Bogotá', 'DC', 'CO', 4.711, -74.0721, 'America/Bogota', ['bogota']],
+  ['Medellín', 'ANT', 'CO', 6.2442, -75.5812, 'America/Bogota', ['medellin']],
+  ['Santiago', 'RM', 'CL', -33.4489, -70.6693, 'America/Santiago', []],
+  ['Lima', 'LIM', 'PE', -12.0464, -77.0428, 'America/Lima', []],
+  ['London', 'ENG', 'GB', 51.5074, -0.1278, 'Europe/London', []],
+  ['Manchester', 'ENG', 'GB', 53.4808, -2.2426, 'Europe/London', []],
+  ['Edinburgh', 'SCT', 'GB', 55.9533, -3.1883, 'Europe/London', []],
+  ['Dublin', 'L', 'IE', 53.3498, -6.2603, 'Europe/Dublin', []],
+  ['Lisbon', '11', 'PT', 38.7223, -9.1393, 'Europe/Lisbon', ['lisboa']],
+  ['Porto', '13', 'PT', 41.1579, -8.6291, 'Europe/Lisbon', []],
+  ['Madrid', 'MD', 'ES', 40.4168, -3.7038, 'Europe/Madrid', []],
+  ['Barcelona', 'CT', 'ES', 41.3874, 2.1686, 'Europe/Madrid', []],
+  ['Paris', 'IDF', 'FR', 48.8566, 2.3522, 'Europe/Paris', []],
+  ['Amsterdam', 'NH', 'NL', 52.3676, 4.9041, 'Europe/Amsterdam', []],
+  ['Brussels', 'BRU', 'BE', 50.8503, 4.3517, 'Europe/Brussels', ['bruxelles']],
+  ['Berlin', 'BE', 'DE', 52.52, 13.405, 'Europe/Berlin', []],
+  ['Munich', 'BY', 'DE', 48.1351, 11.582, 'Europe/Berlin', ['münchen', 'muenchen']],
+  ['Hamburg', 'HH', 'DE', 53.5511, 9.9937, 'Europe/Berlin', []],
+  ['Zurich', 'ZH', 'CH', 47.3769, 8.5417, 'Europe/Zurich', ['zürich']],
+  ['Vienna', '9', 'AT', 48.2082, 16.3738, 'Europe/Vienna', ['wien']],
+  ['Copenhagen', '84', 'DK', 55.6761, 12.5683, 'Europe/Copenhagen', ['københavn']],
+  ['Stockholm', 'AB', 'SE', 59.3293, 18.0686, 'Europe/Stockholm', []],
+  ['Oslo', '03', 'NO', 59.9139, 10.7522, 'Europe/Oslo', []],
+  ['Helsinki', '18', 'FI', 60.1699, 24.9384, 'Europe/Helsinki', []],
+  ['Tallinn', '37', 'EE', 59.437, 24.7536, 'Europe/Tallinn', []],
+  ['Warsaw', '14', 'PL', 52.2297, 21.0122, 'Europe/Warsaw', ['warszawa']],
+  ['Kraków', '12', 'PL', 50.0647, 19.945, 'Europe/Warsaw', ['krakow', 'cracow']],
+  ['Prague', '10', 'CZ', 50.0755, 14.4378, 'Europe/Prague', ['praha']],
+  ['Budapest', 'BU', 'HU', 47.4979, 19.0402, 'Europe/Budapest', []],
+  ['Bucharest', 'B', 'RO', 44.4268, 26.1025, 'Europe/Bucharest', ['bucuresti']],
+  ['Kyiv', '30', 'UA', 50.4501, 30.5234, 'Europe/Kyiv', ['kiev']],
+  ['Milan', '25', 'IT', 45.4642, 9.19, 'Europe/Rome', ['milano']],
+  ['Rome', '62', 'IT', 41.9028, 12.4964, 'Europe/Rome', ['roma']],
+  ['Athens', 'I', 'GR', 37.9838, 23.7275, 'Europe/Athens', []],
+  ['Istanbul', '34', 'TR', 41.0082, 28.9784, 'Europe/Istanbul', []],
+  ['Tel Aviv', 'TA', 'IL', 32.0853, 34.7818, 'Asia/Jerusalem', []],
+  ['Dubai', 'DU', 'AE', 25.2048, 55.2708, 'Asia/Dubai', []],
+  ['Cairo', 'C', 'EG', 30.0444, 31.2357, 'Africa/Cairo', []],
+  ['Lagos', 'LA', 'NG', 6.5244, 3.3792, 'Africa/Lagos', []],
+  ['Nairobi', '30', 'KE', -1.2921, 36.8219, 'Africa/Nairobi', []],
+  ['Cape Town', 'WC', 'ZA', -33.9249, 18.4241, 'Africa/Johannesburg', []],
+  ['Johannesburg', 'GT', 'ZA', -26.2041, 28.0473, 'Africa/Johannesburg', ['joburg']],
+  ['Bangalore', 'KA', 'IN', 12.9716, 77.5946, 'Asia/Kolkata', ['bengaluru']],
+  ['Mumbai', 'MH', 'IN', 19.076, 72.8777, 'Asia/Kolkata', ['bombay']],
+  ['Delhi', 'DL', 'IN', 28.7041, 77.1025, 'Asia/Kolkata', ['new delhi', 'ncr']],
+  ['Hyderabad', 'TG', 'IN', 17.385, 78.4867, 'Asia/Kolkata', []],
+  ['Pune', 'MH', 'IN', 18.5204, 73.8567, 'Asia/Kolkata', []],
+  ['Karachi', 'SD', 'PK', 24.8607, 67.0011, 'Asia/Karachi', []],
+  ['Lahore', 'PB', 'PK', 31.5204, 74.3587, 'Asia/Karachi', []],
+  ['Dhaka', '13', 'BD', 23.8103, 90.4125, 'Asia/Dhaka', []],
+  ['Singapore', '01', 'SG', 1.3521, 103.8198, 'Asia/Singapore', []],
+  ['Kuala Lumpur', '14', 'MY', 3.139, 101.6869, 'Asia/Kuala_Lumpur', ['kl']],
+  ['Bangkok', '10', 'TH', 13.7563, 100.5018, 'Asia/Bangkok', []],
+  ['Ho Chi Minh City', 'SG', 'VN', 10.8231, 106.6297, 'Asia/Ho_Chi_Minh', ['saigon', 'hcmc']],
+  ['Hanoi', 'HN', 'VN', 21.0278, 105.8342, 'Asia/Ho_Chi_Minh', []],
+  ['Jakarta', 'JK', 'ID', -6.2088, 106.8456, 'Asia/Jakarta', []],
+  ['Manila', 'NCR', 'PH', 14.5995, 120.9842, 'Asia/Manila', []],
+  ['Hong Kong', 'HK', 'HK', 22.3193, 114.1694, 'Asia/Hong_Kong', ['hk']],
+  ['Shanghai', 'SH', 'CN', 31.2304, 121.4737, 'Asia/Shanghai', []],
+  ['Beijing', 'BJ', 'CN', 39.9042, 116.4074, 'Asia/Shanghai', ['peking']],
+  ['Shenzhen', 'GD', 'CN', 22.5431, 114.0579, 'Asia/Shanghai', []],
+  ['Taipei', 'TPE', 'TW', 25.033, 121.5654, 'Asia/Taipei', []],
+  ['Seoul', '11', 'KR', 37.5665, 126.978, 'Asia/Seoul', []],
+  ['Tokyo', '13', 'JP', 35.6762, 139.6503, 'Asia/Tokyo', []],
+  ['Osaka', '27', 'JP', 34.6937, 135.5023, 'Asia/Tokyo', []],
+  ['Sydney', 'NSW', 'AU', -33.8688, 151.2093, 'Australia/Sydney', []],
+  ['Melbourne', 'VIC', 'AU', -37.8136, 144.9631, 'Australia/Melbourne', []],
+  ['Brisbane', 'QLD', 'AU', -27.4698, 153.0251, 'Australia/Brisbane', []],
+  ['Perth', 'WA', 'AU', -31.9505, 115.8605, 'Australia/Perth', []],
+  ['Auckland', 'AUK', 'NZ', -36.8485, 174.7633, 'Pacific/Auckland', []],
+  ['Wellington', 'WGN', 'NZ', -41.2865, 174.7762, 'Pacific/Auckland', []],
+];
+
+export const COUNTRIES: CountryEntry[] = [
+  ['US', 'United States', null, ['usa', 'u.s.', 'u.s.a.', 'america', 'united states of america']],
+  ['CA', 'Canada', null, []],
+  ['MX', 'Mexico', 'America/Mexico_City', ['méxico']],
+  ['BR', 'Brazil', 'America/Sao_Paulo', ['brasil']],
+  ['AR', 'Argentina', 'America/Argentina/Buenos_Aires', []],
+  ['CO', 'Colombia', 'America/Bogota', []],
+  ['CL', 'Chile', 'America/Santiago', []],
+  ['PE', 'Peru', 'America/Lima', []],
+  ['GB', 'United Kingdom', 'Europe/London', ['uk', 'u.k.', 'great britain', 'britain', 'england', 'scotland', 'wales']],
+  ['IE', 'Ireland', 'Europe/Dublin', []],
+  ['PT', 'Portugal', 'Europe/Lisbon', []],
+  ['ES', 'Spain', 'Europe/Madrid', ['españa']],
+  ['FR', 'France', 'Europe/Paris', []],
+  ['NL', 'Netherlands', 'Europe/Amsterdam', ['the netherlands', 'holland']],
+  ['BE', 'Belgium', 'Europe/Brussels', []],
+  ['DE', 'Germany', 'Europe/Berlin', ['deutschland']],
+  ['CH', 'Switzerland', 'Europe/Zurich', []],
+  ['AT', 'Austria', 'Europe/Vienna', []],
+  ['DK', 'Denmark', 'Europe/Copenhagen', []],
+  ['SE', 'Sweden', 'Europe/Stockholm', []],
+  ['NO', 'Norway', 'Europe/Oslo', []],
+  ['FI', 'Finland', 'Europe/Helsinki', []],
+  ['EE', 'Estonia', 'Europe/Tallinn', []],
+  ['PL', 'Poland', 'Europe/Warsaw', []],
+  ['CZ', 'Czechia', 'Europe/Prague', ['czech republic']],
+  ['HU', 'Hungary', 'Europe/Budapest', []],
+  ['RO', 'Romania', 'Europe/Bucharest', []],
+  ['UA', 'Ukraine', 'Europe/Kyiv', []],
+  ['IT', 'Italy', 'Europe/Rome', ['italia']],
+  ['GR', 'Greece', 'Europe/Athens', []],
+  ['TR', 'Turkey', 'Europe/Istanbul', ['türkiye', 'turkiye']],
+  ['IL', 'Israel', 'Asia/Jerusalem', []],
+  ['AE', 'United Arab Emirates', 'Asia/Dubai', ['uae']],
+  ['EG', 'Egypt', 'Africa/Cairo', []],
+  ['NG', 'Nigeria', 'Africa/Lagos', []],
+  ['KE', 'Kenya', 'Africa/Nairobi', []],
+  ['ZA', 'South Africa', 'Africa/Johannesburg', []],
+  ['IN', 'India', 'Asia/Kolkata', []],
+  ['PK', 'Pakistan', 'Asia/Karachi', []],
+  ['BD', 'Bangladesh', 'Asia/Dhaka', []],
+  ['SG', 'Singapore', 'Asia/Singapore', []],
+  ['MY', 'Malaysia', 'Asia/Kuala_Lumpur', []],
+  ['TH', 'Thailand', 'Asia/Bangkok', []],
+  ['VN', 'Vietnam', 'Asia/Ho_Chi_Minh', ['viet nam']],
+  ['ID', 'Indonesia', 'Asia/Jakarta', []],
+  ['PH', 'Philippines', 'Asia/Manila', []],
+  ['HK', 'Hong Kong', 'Asia/Hong_Kong', []],
+  ['CN', 'China', 'Asia/Shanghai', []],
+  ['TW', 'Taiwan', 'Asia/Taipei', []],
+  ['KR', 'South Korea', 'Asia/Seoul', ['korea']],
+  ['JP', 'Japan', 'Asia/Tokyo', []],
+  ['AU', 'Australia', null, []],
+  ['NZ', 'New Zealand', 'Pacific/Auckland', []],
+];
+
+export const REGIONS: RegionEntry[] = [
+  ['AL', 'Alabama', 'US', 'America/Chicago'],
+  ['AK', 'Alaska', 'US', 'America/Anchorage'],
+  ['AZ', 'Arizona', 'US', 'America/Phoenix'],
+  ['AR', 'Arkansas', 'US', 'America/Chicago'],
+  ['CA', 'California', 'US', 'America/Los_Angeles'],
+  ['CO', 'Colorado', 'US', 'America/Denver'],
+  ['CT', 'Connecticut', 'US', 'America/New_York'],
+  ['DE', 'Delaware', 'US', 'America/New_York'],
+  ['DC', 'District of Columbia', 'US', 'America/New_York'],
+  ['FL', 'Florida', 'US', 'America/New_York'],
+  ['GA', 'Georgia', 'US', 'America/New_York'],
+  ['HI', 'Hawaii', 'US', 'Pacific/Honolulu'],
+  ['ID', 'Idaho', 'US', 'America/Boise'],
+  ['IL', 'Illinois', 'US', 'America/Chicago'],
+  ['IN', 'Indiana', 'US', 'America/Indiana/Indianapolis'],
+  ['IA', 'Iowa', 'US', 'America/Chicago'],
+  ['KS', 'Kansas', 'US', 'America/Chicago'],
+  ['KY', 'Kentucky', 'US', 'America/New_York'],
+  ['LA', 'Louisiana', 'US', 'America/Chicago'],
+  ['ME', 'Maine', 'US', 'America/New_York'],
+  ['MD', 'Maryland', 'US', 'America/New_York'],
+  ['MA', 'Massachusetts', 'US', 'America/New_York'],
+  ['MI', 'Michigan', 'US', 'America/Detroit'],
+  ['MN', 'Minnesota', 'US', 'America/Chicago'],
+  ['MS', 'Mississippi', 'US', 'America/Chicago'],
+  ['MO', 'Missouri', 'US', 'America/Chicago'],
+  ['MT', 'Montana', 'US', 'America/Denver'],
+  ['NE', 'Nebraska', 'US', 'America/Chicago'],
+  ['NV', 'Nevada', 'US', 'America/Los_Angeles'],
+  ['NH', 'New Hampshire', 'US', 'America/New_York'],
+  ['NJ', 'New Jersey', 'US', 'America/New_York'],
+  ['NM', 'New Mexico', 'US', 'America/Denver'],
+  ['NY', 'New York', 'US', 'America/New_York'],
+  ['NC', 'North Carolina', 'US', 'America/New_York'],
+  ['ND', 'North Dakota', 'US', 'America/Chicago'],
+  ['OH', 'Ohio', 'US', 'America/New_York'],
+  ['OK', 'Oklahoma', 'US', 'America/Chicago'],
+  ['OR', 'Oregon', 'US', 'America/Los_Angeles'],
+  ['PA', 'Pennsylvania', 'US', 'America/New_York'],
+  ['RI', 'Rhode Island', 'US', 'America/New_York'],
+  ['SC', 'South Carolina', 'US', 'America/New_York'],
+  ['SD', 'South Dakota', 'US', 'America/Chicago'],
+  ['TN', 'Tennessee', 'US', 'America/Chicago'],
+  ['TX', 'Texas', 'US', 'America/Chicago'],
+  ['UT', 'Utah', 'US', 'America/Denver'],
+  ['VT', 'Vermont', 'US', 'America/New_York'],
+  ['VA', 'Virginia', 'US', 'America/New_York'],
+  ['WA', 'Washington', 'US', 'America/Los_Angeles'],
+  ['WV', 'West Virginia', 'US', 'America/New_York'],
+  ['WI', 'Wisconsin', 'US', 'America/Chicago'],
+  ['WY', 'Wyoming', 'US', 'America/Denver'],
+  ['AB', 'Alberta', 'CA', 'America/Edmonton'],
+  ['BC', 'British Columbia', 'CA', 'America/Vancouver'],
+  ['MB', 'Manitoba', 'CA', 'America/Winnipeg'],
+  ['NB', 'New Brunswick', 'CA', 'America/Moncton'],
+  ['NL', 'Newfoundland and Labrador', 'CA', 'America/St_Johns'],
+  ['NS', 'Nova Scotia', 'CA', 'America/Halifax'],
+  ['ON', 'Ontario', 'CA', 'America/Toronto'],
+  ['PE', 'Prince Edward Island', 'CA', 'America/Halifax'],
+  ['QC', 'Quebec', 'CA', 'America/Toronto'],
+  ['SK', 'Saskatchewan', 'CA', 'America/Regina'],
+];
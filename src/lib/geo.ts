@@ -0,0 +1,178 @@
+import { CITIES, COUNTRIES, REGIONS, type CityEntry, type CountryEntry, type RegionEntry } from './gazetteer.js';
+import type { StructuredLocation } from '../types.js';
+
+// Lowercase, strip accents and punctuation: "São Paulo" -> "sao paulo"
+function placeKey(input: string): string {
+  return input
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Words that describe the work arrangement rather than a place
+const ARRANGEMENT_WORDS = /\b(remote|hybrid|on ?site|in office|anywhere|based|only)\b/g;
+
+interface Index {
+  cities: Map<string, CityEntry[]>;
+  countryNames: Map<string, CountryEntry>;
+  countryCodes: Map<string, CountryEntry>;
+  regionNames: Map<string, RegionEntry[]>;
+  regionCodes: Map<string, RegionEntry[]>;
+}
+
+let index: Index | null = null;
+
+function addTo<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
+
+function getIndex(): Index {
+  if (index) return index;
+
+  index = {
+    cities: new Map(),
+    countryNames: new Map(),
+    countryCodes: new Map(),
+    regionNames: new Map(),
+    regionCodes: new Map(),
+  };
+  for (const city of CITIES) {
+    for (const name of [city[0], ...city[6]]) addTo(index.cities, placeKey(name), city);
+  }
+  for (const country of COUNTRIES) {
+    index.countryCodes.set(placeKey(country[0]), country);
+    for (const name of [country[1], ...country[3]]) index.countryNames.set(placeKey(name), country);
+  }
+  for (const region of REGIONS) {
+    addTo(index.regionCodes, placeKey(region[0]), region);
+    addTo(index.regionNames, placeKey(region[1]), region);
+  }
+  return index;
+}
+
+function countryFor(key: string): CountryEntry | undefined {
+  const { countryNames, countryCodes } = getIndex();
+  return countryNames.get(key) ?? countryCodes.get(key);
+}
+
+function regionsFor(key: string): RegionEntry[] {
+  const { regionNames, regionCodes } = getIndex();
+  return regionNames.get(key) ?? regionCodes.get(key) ?? [];
+}
+
+// A qualifier ("NY", "USA", "Ontario") that a city must satisfy
+function cityMatchesQualifier(city: CityEntry, qualifier: string): boolean {
+  const country = countryFor(qualifier);
+  if (country && country[0] === city[2]) return true;
+  return regionsFor(qualifier).some((r) => r[0] === city[1] && r[2] === city[2]) || placeKey(city[1]) === qualifier;
+}
+
+function fromCity(city: CityEntry): StructuredLocation {
+  return {
+    city: city[0],
+    region: city[1],
+    country: city[2],
+    latitude: city[3],
+    longitude: city[4],
+    timezone: city[5],
+  };
+}
+
+// Find a city named by the start of the tokens, using the rest as qualifiers
+function findCity(tokens: string[], qualifiers: string[]): CityEntry | undefined {
+  const { cities } = getIndex();
+  for (let end = tokens.length; end > 0; end--) {
+    const candidates = cities.get(tokens.slice(0, end).join(' '));
+    if (!candidates) continue;
+
+    const allQualifiers = [...qualifiers];
+    if (end < tokens.length) allQualifiers.unshift(tokens.slice(end).join(' '));
+
+    const match = candidates.find((c) => allQualifiers.every((q) => cityMatchesQualifier(c, q)));
+    if (match) return match;
+  }
+  return undefined;
+}
+
+// Geocode free-text location against the bundled gazetteer (no network).
+// Handles "NYC", "New York, NY", "Berlin, Germany", "Remote (US)", "Ontario".
+// Returns null for places the gazetteer doesn't know.
+export function geocode(input: string): StructuredLocation | null {
+  const parts = input
+    .split(/[,()|;/]+/)
+    .map((p) => placeKey(p).replace(ARRANGEMENT_WORDS, ' ').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const [first, ...qualifiers] = parts;
+
+  const city = findCity(first.split(' '), qualifiers);
+  if (city) return fromCity(city);
+
+  // Region ("California", "ON, Canada") before country, except for exact
+  // country names, so "CA" alone means Canada but "Georgia, US" is a state
+  const countryByName = getIndex().countryNames.get(first);
+  if (countryByName && qualifiers.length === 0) {
+    return { country: countryByName[0], timezone: countryByName[2] ?? undefined };
+  }
+
+  const qualifierCountry = qualifiers.map(countryFor).find(Boolean);
+  const region = regionsFor(first).find((r) => !qualifierCountry || r[2] === qualifierCountry[0]);
+  if (region && (qualifiers.length > 0 || !getIndex().countryCodes.has(first))) {
+    return { region: region[0], country: region[2], timezone: region[3] };
+  }
+
+  const country = countryFor(first);
+  if (country) {
+    return { country: country[0], timezone: country[2] ?? undefined };
+  }
+
+  // Unknown first part ("Greater Metro Area (US)"): fall back to the qualifiers
+  if (qualifiers.length > 0) {
+    return geocode(qualifiers.join(', '));
+  }
+  return null;
+}
+
+export type LocationColumns = {
+  [K in keyof StructuredLocation]-?: Exclude<StructuredLocation[K], undefined> | null;
+};
+
+// Columns written to listings / saved searches for a location
+// (all null when the location is cleared or unknown)
+export function locationColumns(location: string | null | undefined): LocationColumns {
+  const geo = location ? geocode(location) : null;
+  return {
+    city: geo?.city ?? null,
+    region: geo?.region ?? null,
+    country: geo?.country ?? null,
+    latitude: geo?.latitude ?? null,
+    longitude: geo?.longitude ?? null,
+    timezone: geo?.timezone ?? null,
+  };
+}
+
+// Double-quote a value for a PostgREST logic filter so commas and
+// parentheses in free text don't break the or() expression
+function filterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// PostgREST or-filter for a location search: the structured columns when the
+// place was geocoded, plus a partial match on the free text for listings
+// whose location isn't in the gazetteer
+export function locationFilter(text: string, geo: StructuredLocation | null): string {
+  const textMatch = `location.ilike.${filterValue(`*${text}*`)}`;
+  if (!geo?.country) return textMatch;
+
+  const conditions = [`country.eq.${geo.country}`];
+  if (geo.region) conditions.push(`region.eq.${filterValue(geo.region)}`);
+  if (geo.city) conditions.push(`city.eq.${filterValue(geo.city)}`);
+
+  const structured = conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`;
+  return `${structured},${textMatch}`;
+}
@@ -0,0 +1,703 @@
+// Marketplace data layer shared by the MCP tools and the CLI commands.
+// Functions take the signed-in user and return plain data; callers decide
+// how to present it (JSON tool results, terminal tables).
+
+import { getSupabase } from './supabase.js';
+import { normalizeTimezone } from './profile.js';
+import { requestQueryEmbedding } from './embeddings.js';
+import { normalizeSkills, expandSkills } from './skills.js';
+import { normalizeCurrency, toUsd, hourlyRateFilter } from './rates.js';
+import { geocode, locationFilter } from './geo.js';
+import { keysetFilter, decodeCursor, paginate, type PageOptions } from './pagination.js';
+import type {
+  Listing,
+  User,
+  UserReputation,
+  Message,
+  Conversation,
+  SavedSearch,
+  StructuredLocation,
+} from '../types.js';
+
+export interface ListingSearch extends PageOptions {
+  query: string;
+  type: 'jobs' | 'talent';
+  skills_filter?: string[];
+  rate_min?: number;
+  rate_max?: number;
+  // Currency of rate_min/rate_max (default USD)
+  currency?: string;
+  // Include listings without a comparable rate when filtering by rate (default true)
+  include_negotiable?: boolean;
+  remote_only?: boolean;
+  posted_within_days?: number;
+  location?: string;
+  near?: string;
+  // Radius for near (default 50)
+  radius_km?: number;
+  timezone?: string;
+  timezone_window_hours?: number;
+  // Blend in embedding similarity when available (default true)
+  semantic?: boolean;
+}
+
+export interface ScoredListing {
+  listing: Listing;
+  user: User;
+  rank?: number;
+  distance_km?: number;
+  relevance_hints: string[];
+}
+
+export interface NewListing {
+  type: 'job' | 'available';
+  title: string;
+  description: string;
+  skills: string[];
+  rate_min?: number;
+  rate_max?: number;
+  rate_type?: 'hourly' | 'fixed' | 'negotiable';
+  currency?: string;
+  estimated_hours?: number;
+  remote?: boolean;
+  location?: string;
+  timezone?: string;
+  timezone_window_hours?: number;
+}
+
+export type ExpirationStatus = 'no_expiration' | 'expired' | 'expiring_soon' | 'active';
+
+export interface ConversationSummary {
+  id: string;
+  other_user: Pick<User, 'id' | 'name' | 'headline'>;
+  // null for general threads, or when the listing is no longer active
+  listing: Pick<Listing, 'id' | 'title' | 'type'> | null;
+  listing_id: string | null;
+  unread_count: number;
+  last_message: { preview: string; sent_by_me: boolean; timestamp: string } | null;
+}
+
+export interface ConversationMessage {
+  id: string;
+  content: string;
+  sent_by_me: boolean;
+  timestamp: string;
+  read: boolean;
+}
+
+// Messaging limit hit, from the PT429 errors raised by 013_message_rate_limits.sql
+export interface RateLimit {
+  message?: string;
+  limit: Record<string, unknown>;
+  hint?: string;
+}
+
+// Listings stay up for 30 days unless renewed
+const LISTING_LIFETIME_DAYS = 30;
+
+// Columns returned to clients: everything but the embedding (384 floats,
+// only read by the search RPCs) and listings.search_vector. hourly_rate_min
+// and hourly_rate_max are computed (018_rate_normalization.sql).
+export const LISTING_FIELDS = `
+  id, user_id, type, title, description, skills, rate_min, rate_max, rate_type, currency, estimated_hours,
+  hourly_rate_min, hourly_rate_max, location, country, region, city, latitude, longitude, timezone,
+  timezone_window_hours, remote, created_at, expires_at, active, revision
+`;
+
+export const SAVED_SEARCH_FIELDS = `
+  id, user_id, name, search_type, query, skills_filter, rate_min, rate_max, currency, include_negotiable,
+  remote_only, location, country, region, city, latitude, longitude, radius_km, timezone, timezone_window_hours,
+  notify_email, last_checked_at, last_notified_at, created_at, active
+`;
+
+// ============================================
+// Listings
+// ============================================
+
+// Full-text (or hybrid semantic) search over other users' active listings
+export async function searchListings(
+  user: User,
+  params: ListingSearch
+): Promise<{ results: ScoredListing[]; semantic: boolean; next_cursor: string | null }> {
+  const db = getSupabase();
+  const listingType = params.type === 'jobs' ? 'job' : 'available';
+
+  let near: StructuredLocation | null = null;
+  if (params.near) {
+    near = geocode(params.near);
+    if (near?.latitude === undefined) {
+      throw new Error(`Unknown city "${params.near}". Use location to filter by state or country`);
+    }
+  }
+
+  const filterByTimezone = params.timezone !== undefined || params.timezone_window_hours !== undefined;
+  const overlapTimezone = params.timezone ? normalizeTimezone(params.timezone) : user.timezone;
+  if (filterByTimezone && !overlapTimezone) {
+    throw new Error('No timezone to compare with. Pass timezone or set one on your profile');
+  }
+
+  // Area and timezone filters run in the RPC (see 019_structured_locations.sql)
+  const geoFilters = {
+    near_lat: near?.latitude,
+    near_lng: near?.longitude,
+    within_km: near ? (params.radius_km ?? 50) : undefined,
+    overlap_timezone: filterByTimezone ? overlapTimezone : undefined,
+    max_timezone_diff_hours: filterByTimezone ? (params.timezone_window_hours ?? 3) : undefined,
+  };
+
+  // Hybrid semantic + full-text rank when the query can be embedded
+  // (see 015_listing_embeddings.sql), else full-text only (007_search_listings_fts.sql)
+  const queryEmbedding = params.semantic !== false ? await requestQueryEmbedding(params.query) : null;
+  let query = (
+    queryEmbedding
+      ? db.rpc('hybrid_search_listings', {
+          search_query: params.query,
+          query_embedding: JSON.stringify(queryEmbedding),
+          listing_type: listingType,
+          ...geoFilters,
+        })
+      : db.rpc('search_listings', {
+          search_query: params.query,
+          listing_type: listingType,
+          ...geoFilters,
+        })
+  ).neq('user_id', user.id);
+
+  if (params.remote_only) {
+    query = query.eq('remote', true);
+  }
+
+  const currency = params.currency ?? 'USD';
+  const rateFilter = hourlyRateFilter(
+    params.rate_min ? await toUsd(params.rate_min, currency) : undefined,
+    params.rate_max ? await toUsd(params.rate_max, currency) : undefined,
+    params.include_negotiable ?? true
+  );
+  if (rateFilter) {
+    query = query.or(rateFilter);
+  }
+
+  if (params.skills_filter && params.skills_filter.length > 0) {
+    query = query.overlaps('skills', await expandSkills(params.skills_filter));
+  }
+
+  if (params.posted_within_days) {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - params.posted_within_days);
+    query = query.gte('created_at', cutoffDate.toISOString());
+  }
+
+  if (params.location) {
+    query = query.or(locationFilter(params.location, geocode(params.location)));
+  }
+
+  if (params.cursor) {
+    query = query.or(keysetFilter(['rank', 'created_at', 'id'], decodeCursor(params.cursor, 3), 'desc'));
+  }
+
+  const { data: rows, error } = await query
+    .order('rank', { ascending: false })
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(params.limit + 1);
+  if (error) throw error;
+
+  const { rows: listings, next_cursor } = paginate(
+    (rows || []) as (Listing & { user: User; rank: number; distance_km?: number | null })[],
+    params.limit,
+    (l) => [l.rank, l.created_at, l.id]
+  );
+
+  await attachReputation(listings.map((l) => l.user));
+
+  return {
+    results: scoreListings(listings, params.query),
+    semantic: queryEmbedding !== null,
+    next_cursor,
+  };
+}
+
+// Post a listing for the user. The note suggests adding estimated_hours to
+// fixed-price listings so they show up in hourly rate searches.
+export async function createListing(user: User, input: NewListing): Promise<{ listing: Listing; note?: string }> {
+  const db = getSupabase();
+
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + LISTING_LIFETIME_DAYS);
+
+  const geo = input.location ? geocode(input.location) : null;
+  const listing: Partial<Listing> = {
+    user_id: user.id,
+    type: input.type,
+    title: input.title,
+    description: input.description,
+    skills: await normalizeSkills(input.skills),
+    rate_min: input.rate_min,
+    rate_max: input.rate_max,
+    rate_type: input.rate_type,
+    currency: normalizeCurrency(input.currency ?? 'USD'),
+    estimated_hours: input.estimated_hours,
+    remote: input.remote ?? true,
+    location: input.location,
+    ...geo,
+    timezone: input.timezone ? normalizeTimezone(input.timezone) : (geo?.timezone ?? user.timezone),
+    timezone_window_hours: input.timezone_window_hours,
+    active: true,
+    expires_at: expiresAt.toISOString(),
+  };
+
+  const { data, error } = await db.from('listings').insert(listing).select(LISTING_FIELDS).single();
+  if (error) {
+    // FK to exchange_rates
+    if (error.code === '23503') {
+      throw new Error(`Unsupported currency "${listing.currency}"`);
+    }
+    throw error;
+  }
+
+  return {
+    listing: data as Listing,
+    note:
+      input.rate_type === 'fixed' && !input.estimated_hours
+        ? 'Add estimated_hours so searches filtering by hourly rate can compare this fixed price'
+        : undefined,
+  };
+}
+
+// The user's active listings, newest first, with how soon each expires
+export async function getMyListings(
+  user: User
+): Promise<(Listing & { expiration_status: ExpirationStatus; days_until_expiration: number | null })[]> {
+  const db = getSupabase();
+
+  const { data: listings, error } = await db
+    .from('listings')
+    .select(LISTING_FIELDS)
+    .eq('user_id', user.id)
+    .eq('active', true)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const now = new Date();
+  return (listings || []).map((listing: Listing) => {
+    const expiresAt = listing.expires_at ? new Date(listing.expires_at) : null;
+    const daysUntilExpiration = expiresAt
+      ? Math.ceil((expiresAt.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
+      : null;
+
+    return {
+      ...listing,
+      expiration_status:
+        !expiresAt || daysUntilExpiration === null
+          ? 'no_expiration'
+          : daysUntilExpiration <= 0
+            ? 'expired'
+            : daysUntilExpiration <= 7
+              ? 'expiring_soon'
+              : 'active',
+      days_until_expiration: daysUntilExpiration,
+    };
+  });
+}
+
+// ============================================
+// Messaging
+// ============================================
+
+// The user's conversations, most recent message first, each with its last
+// message and unread count. Pages are keyed on (last_message_at, id); a
+// thread that gets a reply while paging moves to the top and isn't
+// repeated on later pages.
+export async function getConversations(
+  user: User,
+  page: PageOptions
+): Promise<{ conversations: ConversationSummary[]; next_cursor: string | null }> {
+  const db = getSupabase();
+
+  let query = db
+    .from('conversations')
+    .select(
+      `
+      *,
+      listing:listings (id, title, type),
+      last_message:messages (content, sender_id, created_at),
+      unread:messages (count)
+    `
+    )
+    .contains('participant_ids', [user.id])
+    .order('created_at', { referencedTable: 'last_message', ascending: false })
+    .limit(1, { referencedTable: 'last_message' })
+    .eq('unread.read', false)
+    .neq('unread.sender_id', user.id);
+
+  if (page.cursor) {
+    query = query.or(keysetFilter(['last_message_at', 'id'], decodeCursor(page.cursor, 2), 'desc'));
+  }
+
+  const { data: rows, error } = await query
+    .order('last_message_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(page.limit + 1);
+
+  if (error) throw error;
+
+  const { rows: conversations, next_cursor } = paginate(rows || [], page.limit, (c) => [c.last_message_at, c.id]);
+  if (conversations.length === 0) {
+    return { conversations: [], next_cursor: null };
+  }
+
+  // Get other users' info
+  const otherUserIds = conversations.flatMap((c) => c.participant_ids.filter((id: string) => id !== user.id));
+
+  const { data: users } = await db.from('users').select('id, name, headline').in('id', otherUserIds);
+  const userMap = new Map((users || []).map((u) => [u.id, u]));
+
+  const summaries = conversations.map((conv) => {
+    const otherUserId = conv.participant_ids.find((id: string) => id !== user.id);
+    const otherUser = userMap.get(otherUserId);
+    const lastMessage = conv.last_message?.[0];
+
+    return {
+      id: conv.id,
+      other_user: otherUser || { id: otherUserId, name: 'Unknown' },
+      listing: conv.listing || null,
+      listing_id: conv.listing_id || null,
+      unread_count: conv.unread?.[0]?.count ?? 0,
+      last_message: lastMessage
+        ? {
+            preview: lastMessage.content.substring(0, 100),
+            sent_by_me: lastMessage.sender_id === user.id,
+            timestamp: lastMessage.created_at,
+          }
+        : null,
+    };
+  });
+
+  return { conversations: summaries, next_cursor };
+}
+
+// A page of messages in a conversation, oldest first. The cursor walks back
+// through older messages.
+export async function getMessages(
+  user: User,
+  conversationId: string,
+  page: PageOptions & { mark_as_read?: boolean }
+): Promise<{ messages: ConversationMessage[]; next_cursor: string | null }> {
+  const db = getSupabase();
+
+  let query = db.from('messages').select('*').eq('conversation_id', conversationId);
+
+  if (page.cursor) {
+    query = query.or(keysetFilter(['created_at', 'id'], decodeCursor(page.cursor, 2), 'desc'));
+  }
+
+  const { data: rows, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(page.limit + 1);
+
+  if (error) throw error;
+
+  const { rows: newestFirst, next_cursor } = paginate(rows || [], page.limit, (m) => [m.created_at, m.id]);
+  const messages = (newestFirst as Message[]).reverse();
+
+  const unreadIds = messages.filter((m) => m.sender_id !== user.id && !m.read).map((m) => m.id);
+  if (page.mark_as_read !== false && unreadIds.length > 0) {
+    await db.from('messages').update({ read: true }).in('id', unreadIds);
+  }
+
+  return {
+    messages: messages.map((msg) => ({
+      id: msg.id,
+      content: msg.content,
+      sent_by_me: msg.sender_id === user.id,
+      timestamp: msg.created_at,
+      read: msg.read,
+    })),
+    next_cursor,
+  };
+}
+
+// Send a message in the thread for the listing (or the general thread),
+// starting it if needed. Rate limit and block errors are thrown as-is; see
+// parseRateLimit.
+export async function sendMessage(
+  user: User,
+  recipientId: string,
+  content: string,
+  listingId?: string
+): Promise<{ conversation_id: string }> {
+  const db = getSupabase();
+  const conversation = await getOrCreateConversation(user.id, recipientId, listingId);
+
+  const { error: msgError } = await db.from('messages').insert({
+    conversation_id: conversation.id,
+    sender_id: user.id,
+    recipient_id: recipientId,
+    content,
+    read: false,
+  });
+
+  if (msgError) throw msgError;
+
+  return { conversation_id: conversation.id };
+}
+
+// Get the conversation between two users about a listing (or their general
+// thread when no listing is given), or start one
+export async function getOrCreateConversation(
+  userId: string,
+  otherUserId: string,
+  listingId?: string
+): Promise<Conversation> {
+  const db = getSupabase();
+  const participantIds = [userId, otherUserId].sort();
+
+  const findConversation = async () => {
+    let query = db
+      .from('conversations')
+      .select('*')
+      .contains('participant_ids', participantIds)
+      .containedBy('participant_ids', participantIds);
+
+    query = listingId ? query.eq('listing_id', listingId) : query.is('listing_id', null);
+
+    const { data } = await query.order('last_message_at', { ascending: false }).limit(1).maybeSingle();
+    return data as Conversation | null;
+  };
+
+  const existingConv = await findConversation();
+  if (existingConv) {
+    return existingConv;
+  }
+
+  const { data: newConv, error: convError } = await db
+    .from('conversations')
+    .insert({
+      participant_ids: participantIds,
+      listing_id: listingId,
+      last_message_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (convError) {
+    // The other side started the same thread at the same moment
+    if (convError.code === '23505') {
+      const raced = await findConversation();
+      if (raced) return raced;
+    }
+    throw convError;
+  }
+  return newConv;
+}
+
+// Messaging limits are enforced in Postgres, which rejects inserts with
+// SQLSTATE PT429 and the limit as JSON details. Null for other errors.
+export function parseRateLimit(error: unknown): RateLimit | null {
+  const e = error as { code?: string; message?: string; details?: string; hint?: string } | null;
+  if (e?.code !== 'PT429') return null;
+
+  let limit: Record<string, unknown> = {};
+  try {
+    limit = JSON.parse(e.details || '{}');
+  } catch {
+    // Keep the message even if details are missing
+  }
+  return { message: e.message, limit, hint: e.hint };
+}
+
+// ============================================
+// Saved searches
+// ============================================
+
+export async function getSavedSearches(user: User): Promise<SavedSearch[]> {
+  const db = getSupabase();
+
+  const { data: searches, error } = await db
+    .from('saved_searches')
+    .select(SAVED_SEARCH_FIELDS)
+    .eq('user_id', user.id)
+    .eq('active', true)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (searches || []) as SavedSearch[];
+}
+
+// Current matches for one of the user's saved searches: most similar to
+// the query first once it has an embedding, else newest first.
+// Returns null when the search doesn't exist or isn't theirs.
+export async function runSavedSearch(
+  user: User,
+  searchId: string,
+  page: PageOptions
+): Promise<{ saved_search: SavedSearch; results: ScoredListing[]; semantic: boolean; next_cursor: string | null } | null> {
+  const db = getSupabase();
+
+  const { data, error: searchError } = await db
+    .from('saved_searches')
+    .select(`${SAVED_SEARCH_FIELDS}, embedding`)
+    .eq('id', searchId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (searchError || !data) {
+    return null;
+  }
+  const { embedding, ...savedSearch } = data as unknown as SavedSearch & { embedding: string | null };
+
+  // Run the search with saved criteria
+  const listingType = savedSearch.search_type === 'jobs' ? 'job' : 'available';
+
+  // Empty query matches every active listing; the RPC applies the
+  // radius and timezone filters (see 019_structured_locations.sql)
+  const radius = savedSearch.radius_km != null && savedSearch.latitude != null;
+  const rpcParams = {
+    search_query: '',
+    listing_type: listingType,
+    near_lat: radius ? savedSearch.latitude : undefined,
+    near_lng: radius ? savedSearch.longitude : undefined,
+    within_km: radius ? savedSearch.radius_km : undefined,
+    overlap_timezone: savedSearch.timezone ?? undefined,
+    max_timezone_diff_hours: savedSearch.timezone_window_hours ?? undefined,
+  };
+
+  // The query's embedding is stored by the embed function; with it, each
+  // match's rank is its semantic similarity to the query (still every
+  // match is returned, as the empty full-text query matches them all)
+  const semantic = Boolean(embedding && savedSearch.query);
+  let query = (
+    semantic
+      ? db.rpc('hybrid_search_listings', { ...rpcParams, query_embedding: embedding, semantic_weight: 1 })
+      : db.rpc('search_listings', rpcParams)
+  ).neq('user_id', user.id);
+
+  if (savedSearch.remote_only) {
+    query = query.eq('remote', true);
+  }
+
+  const rateFilter = hourlyRateFilter(
+    savedSearch.rate_min ? await toUsd(savedSearch.rate_min, savedSearch.currency) : undefined,
+    savedSearch.rate_max ? await toUsd(savedSearch.rate_max, savedSearch.currency) : undefined,
+    savedSearch.include_negotiable
+  );
+  if (rateFilter) {
+    query = query.or(rateFilter);
+  }
+
+  if (savedSearch.skills_filter && savedSearch.skills_filter.length > 0) {
+    query = query.overlaps('skills', await expandSkills(savedSearch.skills_filter));
+  }
+
+  if (savedSearch.location && !radius) {
+    query = query.or(locationFilter(savedSearch.location, savedSearch.country ? savedSearch : null));
+  }
+
+  const orderColumns = semantic ? ['rank', 'created_at', 'id'] : ['created_at', 'id'];
+  if (page.cursor) {
+    query = query.or(keysetFilter(orderColumns, decodeCursor(page.cursor, orderColumns.length), 'desc'));
+  }
+  for (const column of orderColumns) {
+    query = query.order(column, { ascending: false });
+  }
+
+  const { data: rows, error: listingsError } = await query.limit(page.limit + 1);
+
+  if (listingsError) throw listingsError;
+
+  const { rows: listings, next_cursor } = paginate(
+    (rows || []) as (Listing & { user: User; rank: number })[],
+    page.limit,
+    (l) => (semantic ? [l.rank, l.created_at, l.id] : [l.created_at, l.id])
+  );
+  await attachReputation(listings.map((l) => l.user));
+
+  // Record the manual run; background notifications keep their own
+  // watermark (last_notified_at), so this doesn't skip any
+  await db.from('saved_searches').update({ last_checked_at: new Date().toISOString() }).eq('id', searchId);
+
+  // Score results if there's a query
+  const results = savedSearch.query
+    ? scoreListings(listings, savedSearch.query)
+    : listings.map((l) => ({ listing: l, user: l.user, relevance_hints: [] }));
+
+  return { saved_search: savedSearch, results, semantic, next_cursor };
+}
+
+// ============================================
+// Shared helpers
+// ============================================
+
+// Simple scoring function (Claude will do the real analysis)
+// Passes through the full-text rank and distance when the rows came from the search_listings RPC
+export function scoreListings(
+  listings: (Listing & { user: User; rank?: number; distance_km?: number | null })[],
+  query: string
+): ScoredListing[] {
+  const queryWords = query.toLowerCase().split(/\s+/).filter((w) => w.length > 2);
+
+  return listings.map((item) => {
+    const hints: string[] = [];
+    const searchText = `${item.title} ${item.description} ${item.skills.join(' ')}`.toLowerCase();
+
+    queryWords.forEach((word) => {
+      if (searchText.includes(word)) {
+        hints.push(`Matches "${word}"`);
+      }
+    });
+
+    item.skills.forEach((skill) => {
+      if (queryWords.some((w) => skill.includes(w) || w.includes(skill))) {
+        hints.push(`Has skill: ${skill}`);
+      }
+    });
+
+    return {
+      listing: {
+        id: item.id,
+        type: item.type,
+        title: item.title,
+        description: item.description,
+        skills: item.skills,
+        rate_min: item.rate_min,
+        rate_max: item.rate_max,
+        rate_type: item.rate_type,
+        currency: item.currency,
+        estimated_hours: item.estimated_hours,
+        hourly_rate_min: item.hourly_rate_min,
+        hourly_rate_max: item.hourly_rate_max,
+        remote: item.remote,
+        location: item.location,
+        city: item.city,
+        region: item.region,
+        country: item.country,
+        timezone: item.timezone,
+        created_at: item.created_at,
+      } as Listing,
+      user: item.user,
+      rank: item.rank,
+      distance_km: item.distance_km != null ? Math.round(item.distance_km) : undefined,
+      relevance_hints: hints,
+    };
+  });
+}
+
+// Attach marketplace reputation (aggregated reviews) to user objects in place
+export async function attachReputation(users: Array<Pick<User, 'id' | 'reputation'> | null | undefined>): Promise<void> {
+  const present = users.filter((u): u is Pick<User, 'id' | 'reputation'> => Boolean(u));
+  if (present.length === 0) return;
+
+  const db = getSupabase();
+  const { data } = await db
+    .from('user_reputation')
+    .select('*')
+    .in('user_id', [...new Set(present.map((u) => u.id))]);
+
+  const reputations = new Map((data || []).map((r: UserReputation) => [r.user_id, r]));
+  for (const u of present) {
+    const r = reputations.get(u.id);
+    u.reputation = { rating_avg: r?.rating_avg ?? null, review_count: r?.review_count ?? 0 };
+  }
+}
@@ -0,0 +1,61 @@
+// Keyset pagination helpers
+// Cursors are opaque base64url-encoded keyset positions: the ordering key
+// values of the last row on the previous page. Filtering by position
+// (rather than offset) keeps pages stable when new rows arrive.
+
+export interface PageOptions {
+  limit: number;
+  cursor?: string;
+}
+
+export type CursorKey = string | number;
+
+export function encodeCursor(keys: CursorKey[]): string {
+  return Buffer.from(JSON.stringify(keys)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, length: number): CursorKey[] {
+  try {
+    const keys = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (
+      Array.isArray(keys) &&
+      keys.length === length &&
+      keys.every((k) => typeof k === 'string' || typeof k === 'number')
+    ) {
+      return keys;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor');
+}
+
+// PostgREST `or` filter matching rows strictly after the cursor position
+// when ordering by `columns` (all in the same direction)
+export function keysetFilter(columns: string[], keys: CursorKey[], direction: 'asc' | 'desc'): string {
+  const op = direction === 'desc' ? 'lt' : 'gt';
+  const value = (k: CursorKey) => (typeof k === 'number' ? String(k) : `"${k}"`);
+
+  return columns
+    .map((column, i) => {
+      const conditions = [
+        ...columns.slice(0, i).map((c, j) => `${c}.eq.${value(keys[j])}`),
+        `${column}.${op}.${value(keys[i])}`,
+      ];
+      return conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`;
+    })
+    .join(',');
+}
+
+// Trim a `limit + 1` row fetch down to one page and build the next cursor
+export function paginate<T>(
+  rows: T[],
+  limit: number,
+  keysOf: (row: T) => CursorKey[]
+): { rows: T[]; next_cursor: string | null } {
+  if (rows.length <= limit) {
+    return { rows, next_cursor: null };
+  }
+  const page = rows.slice(0, limit);
+  return { rows: page, next_cursor: encodeCursor(keysOf(page[page.length - 1])) };
+}
@@ -0,0 +1,80 @@
+import { parsePhoneNumberFromString, type CountryCode } from 'libphonenumber-js';
+import { getSupabase } from './supabase.js';
+import { normalizeSkills } from './skills.js';
+import type { User } from '../types.js';
+
+// Fields a user can edit on their public profile (null clears a field)
+export interface ProfileUpdate {
+  headline?: string | null;
+  phone?: string | null;
+  bio?: string | null;
+  timezone?: string | null;
+  portfolio_links?: string[];
+  skills?: string[];
+}
+
+// Normalize a phone number to E.164 (e.g. "+14155552671")
+// defaultCountry (ISO 3166 code like "US") allows national-format input
+export function normalizePhone(input: string, defaultCountry?: string): string {
+  const parsed = parsePhoneNumberFromString(input, defaultCountry?.toUpperCase() as CountryCode | undefined);
+  if (!parsed || !parsed.isValid()) {
+    throw new Error(`Invalid phone number "${input}". Use international format, e.g. +14155552671`);
+  }
+  return parsed.number;
+}
+
+// Validate an IANA timezone name and return its canonical spelling
+export function normalizeTimezone(input: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: input }).resolvedOptions().timeZone;
+  } catch {
+    throw new Error(`Unknown timezone "${input}". Use an IANA name, e.g. America/New_York`);
+  }
+}
+
+// Portfolio links must be absolute http(s) URLs
+export function normalizeLink(input: string): string {
+  let url: URL;
+  try {
+    url = new URL(input.includes('://') ? input : `https://${input}`);
+  } catch {
+    throw new Error(`Invalid link "${input}"`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Invalid link "${input}". Only http(s) links are allowed`);
+  }
+  return url.toString();
+}
+
+// Validate and save profile changes for the given user
+export async function updateProfile(
+  userId: string,
+  update: ProfileUpdate,
+  options: { phoneCountry?: string } = {}
+): Promise<User> {
+  const changes: Partial<Record<keyof ProfileUpdate, string | string[] | null>> = {};
+
+  if (update.headline !== undefined) changes.headline = update.headline?.trim() || null;
+  if (update.bio !== undefined) changes.bio = update.bio?.trim() || null;
+  if (update.phone !== undefined) {
+    changes.phone = update.phone ? normalizePhone(update.phone, options.phoneCountry) : null;
+  }
+  if (update.timezone !== undefined) {
+    changes.timezone = update.timezone ? normalizeTimezone(update.timezone) : null;
+  }
+  if (update.portfolio_links !== undefined) {
+    changes.portfolio_links = update.portfolio_links.map(normalizeLink);
+  }
+  if (update.skills !== undefined) {
+    changes.skills = await normalizeSkills(update.skills);
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw new Error('No profile fields to update');
+  }
+
+  const db = getSupabase();
+  const { data, error } = await db.from('users').update(changes).eq('id', userId).select().single();
+  if (error) throw error;
+  return data as User;
+}
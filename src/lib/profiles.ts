@@ -0,0 +1,130 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+// Named profiles: separate logins (and optionally separate Supabase
+// projects) side by side, e.g. "work" and "personal". The default profile
+// keeps using the top-level config dir, so single-account setups don't change.
+
+export const DEFAULT_PROFILE = 'default';
+
+const PROFILE_NAME = /^[a-z0-9][a-z0-9_-]{0,31}$/i;
+
+export interface Profile {
+  name: string;
+  // Per-profile project overrides (OPENGIG_SUPABASE_URL / _ANON_KEY still win)
+  supabase_url?: string;
+  supabase_anon_key?: string;
+}
+
+interface ProfilesFile {
+  current?: string;
+  profiles: Record<string, Omit<Profile, 'name'>>;
+}
+
+// Top-level config dir (OPENGIG_SESSION_DIR overrides it, e.g. a temp dir in tests)
+export function getConfigDir(): string {
+  return process.env.OPENGIG_SESSION_DIR || join(homedir(), '.opengig');
+}
+
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME.test(name);
+}
+
+// --profile (exported as OPENGIG_PROFILE by the CLI, and set in each MCP
+// server entry), else the one picked with `opengig profiles --use`
+export function getActiveProfileName(): string {
+  if (process.env.OPENGIG_PROFILE) {
+    return checkProfileName(process.env.OPENGIG_PROFILE, 'OPENGIG_PROFILE');
+  }
+  const { current } = readProfilesFile();
+  return current ? checkProfileName(current, profilesPath()) : DEFAULT_PROFILE;
+}
+
+// A CLI command run against a profile, for "run ..." hints
+export function cliCommand(subcommand?: string, name = getActiveProfileName()): string {
+  const command = subcommand ? `npx opengig ${subcommand}` : 'npx opengig';
+  return name === DEFAULT_PROFILE ? command : `${command} --profile ${name}`;
+}
+
+// How to log in to a profile, for "log in with ..." hints
+export function authCommand(name = getActiveProfileName()): string {
+  return cliCommand('auth', name);
+}
+
+export function getProfile(name = getActiveProfileName()): Profile {
+  return { name, ...readProfilesFile().profiles[name] };
+}
+
+// Known profiles: the default one plus any added or logged into
+export function listProfiles(): Profile[] {
+  const { profiles } = readProfilesFile();
+  const names = new Set([DEFAULT_PROFILE, ...Object.keys(profiles)]);
+  return [...names].sort().map((name) => ({ name, ...profiles[name] }));
+}
+
+// Where a profile's session lives
+export function getProfileDir(name = getActiveProfileName()): string {
+  checkProfileName(name);
+  return name === DEFAULT_PROFILE ? getConfigDir() : join(getConfigDir(), 'profiles', name);
+}
+
+// Create a profile, or update its overrides (undefined leaves a field as
+// is, an empty string clears it)
+export function saveProfile(profile: Profile): void {
+  if (!isValidProfileName(profile.name)) {
+    throw new Error(`Invalid profile name "${profile.name}" (letters, digits, - and _; up to 32 characters)`);
+  }
+  const file = readProfilesFile();
+  const { name, ...overrides } = profile;
+  const merged: Omit<Profile, 'name'> = { ...file.profiles[name] };
+  for (const [key, value] of Object.entries(overrides) as [keyof typeof overrides, string | undefined][]) {
+    if (value === '') delete merged[key];
+    else if (value !== undefined) merged[key] = value;
+  }
+  file.profiles[name] = merged;
+  writeProfilesFile(file);
+}
+
+// Make a profile the default for later commands and new MCP servers
+export function setCurrentProfile(name: string): void {
+  const file = readProfilesFile();
+  if (name !== DEFAULT_PROFILE && !file.profiles[name]) {
+    throw new Error(`Unknown profile "${name}". Add it with: opengig profiles --add ${name}`);
+  }
+  file.current = name;
+  writeProfilesFile(file);
+}
+
+// Names become directory names (see getProfileDir), so anything that could
+// leave the profiles dir, like "../x", is refused wherever it comes from
+function checkProfileName(name: string, source?: string): string {
+  if (!isValidProfileName(name)) {
+    const where = source ? ` in ${source}` : '';
+    throw new Error(`Invalid profile name "${name}"${where} (letters, digits, - and _; up to 32 characters)`);
+  }
+  return name;
+}
+
+function profilesPath(): string {
+  return join(getConfigDir(), 'profiles.json');
+}
+
+function readProfilesFile(): ProfilesFile {
+  if (!existsSync(profilesPath())) {
+    return { profiles: {} };
+  }
+  try {
+    const data = JSON.parse(readFileSync(profilesPath(), 'utf-8'));
+    return { current: data.current, profiles: data.profiles ?? {} };
+  } catch {
+    return { profiles: {} };
+  }
+}
+
+function writeProfilesFile(file: ProfilesFile): void {
+  if (!existsSync(getConfigDir())) {
+    mkdirSync(getConfigDir(), { recursive: true, mode: 0o700 });
+  }
+  writeFileSync(profilesPath(), JSON.stringify(file, null, 2), { mode: 0o600 });
+}
@@ -0,0 +1,43 @@
+import { getSupabase } from './supabase.js';
+
+// ISO 4217 code, e.g. "usd" -> "USD"
+export function normalizeCurrency(input: string): string {
+  const code = input.trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code)) {
+    throw new Error(`Invalid currency "${input}". Use a 3-letter code, e.g. USD`);
+  }
+  return code;
+}
+
+// Convert an amount to USD with the exchange_rates table
+// (see 018_rate_normalization.sql)
+export async function toUsd(amount: number, currency: string): Promise<number> {
+  const code = normalizeCurrency(currency);
+  if (code === 'USD') return amount;
+
+  const db = getSupabase();
+  const { data, error } = await db.from('exchange_rates').select('usd_per_unit').eq('currency', code).maybeSingle();
+  if (error) throw error;
+  if (!data) {
+    throw new Error(`Unsupported currency "${code}"`);
+  }
+  return amount * Number(data.usd_per_unit);
+}
+
+// PostgREST or-filter for an hourly USD range against the hourly_rate_min /
+// hourly_rate_max columns. Listings without a comparable rate (negotiable,
+// fixed price with no hours estimate) match only when includeNegotiable is set.
+// Returns null when there is no range to filter by.
+export function hourlyRateFilter(
+  minUsd: number | undefined,
+  maxUsd: number | undefined,
+  includeNegotiable: boolean
+): string | null {
+  const conditions: string[] = [];
+  if (minUsd) conditions.push(`hourly_rate_max.gte.${minUsd}`);
+  if (maxUsd) conditions.push(`hourly_rate_min.lte.${maxUsd}`);
+  if (conditions.length === 0) return null;
+
+  const range = conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`;
+  return includeNegotiable ? `hourly_rate_max.is.null,${range}` : range;
+}
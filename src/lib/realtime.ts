@@ -0,0 +1,249 @@
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import { getSupabase } from './supabase.js';
+import type { Activity, ActivityStreamStatus, Message, Notification } from '../types.js';
+
+// Events kept for wait_for_activity callers that fall behind
+const MAX_BUFFERED = 200;
+// Rows fetched per table when catching up after a reconnect
+const BACKFILL_LIMIT = 100;
+const MAX_RETRY_DELAY_MS = 30_000;
+// The 005 trigger adds one of these for every message; the message itself
+// is already in the stream
+const MESSAGE_NOTIFICATION = 'message_received';
+
+interface Stream {
+  userId: string;
+  client: SupabaseClient;
+  channel: RealtimeChannel | null;
+  status: ActivityStreamStatus;
+  lastError?: string;
+  events: Activity[];
+  // "message:<id>" / "notification:<id>", so backfilled rows aren't repeated
+  seen: Set<string>;
+  seq: number;
+  // Highest seq returned by waitForActivity, the default starting point
+  delivered: number;
+  // Newest created_at received, or of the newest stored row when the stream
+  // went live: the starting point for backfilling rows missed while
+  // disconnected. Always a server timestamp, never this machine's clock.
+  since: string | null;
+  waiters: Set<() => void>;
+  retries: number;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export interface ActivityStreamOptions {
+  // Injectable for running against a local Supabase stack
+  client?: SupabaseClient;
+}
+
+let stream: Stream | null = null;
+
+// Subscribe to Supabase Realtime inserts on the user's messages and
+// notifications (RLS applies, see 020_realtime_activity.sql).
+// No-op if already streaming for this user.
+export function startActivityStream(userId: string, options: ActivityStreamOptions = {}): void {
+  if (stream?.userId === userId && stream.status !== 'stopped') return;
+  if (stream) void stopActivityStream();
+
+  stream = {
+    userId,
+    client: options.client ?? getSupabase(),
+    channel: null,
+    status: 'connecting',
+    events: [],
+    seen: new Set(),
+    seq: 0,
+    delivered: 0,
+    since: null,
+    waiters: new Set(),
+    retries: 0,
+    retryTimer: null,
+  };
+  subscribe(stream);
+}
+
+export async function stopActivityStream(): Promise<void> {
+  const s = stream;
+  if (!s) return;
+
+  s.status = 'stopped';
+  if (s.retryTimer) clearTimeout(s.retryTimer);
+  s.waiters.forEach((wake) => wake());
+  if (s.channel) await s.client.removeChannel(s.channel);
+  // Close the socket too, so it doesn't keep the process alive
+  if (s.client.getChannels().length === 0) s.client.realtime.disconnect();
+  if (stream === s) stream = null;
+}
+
+export function activityStreamState(): { status: ActivityStreamStatus; cursor: number; last_error?: string } | null {
+  if (!stream) return null;
+  return { status: stream.status, cursor: stream.seq, last_error: stream.lastError };
+}
+
+// Activity with seq > after (default: everything not yet returned), waiting
+// up to timeoutMs for some to arrive
+export async function waitForActivity(after: number | undefined, timeoutMs: number): Promise<Activity[]> {
+  const s = stream;
+  if (!s) throw new Error('Activity stream is not running');
+  after ??= s.delivered;
+
+  const pending = () => s.events.filter((e) => e.seq > after);
+  if (pending().length === 0 && s.status !== 'stopped') {
+    await new Promise<void>((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        s.waiters.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, timeoutMs);
+      s.waiters.add(wake);
+    });
+  }
+
+  const events = pending();
+  s.delivered = Math.max(s.delivered, ...events.map((e) => e.seq));
+  return events;
+}
+
+function subscribe(s: Stream): void {
+  s.channel = s.client
+    .channel(`activity:${s.userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'messages', filter: `recipient_id=eq.${s.userId}` },
+      (payload) => record(s, { type: 'message', data: payload.new as Message })
+    )
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${s.userId}` },
+      (payload) => {
+        const notification = payload.new as Notification;
+        if (notification.type !== MESSAGE_NOTIFICATION) record(s, { type: 'notification', data: notification });
+      }
+    )
+    .subscribe((status, err) => {
+      if (s.status === 'stopped') return;
+
+      if (status === 'SUBSCRIBED') {
+        const reconnected = s.since !== null;
+        s.status = 'live';
+        s.retries = 0;
+        s.lastError = undefined;
+        if (reconnected) {
+          backfill(s).catch((error) => {
+            s.lastError = `Backfill failed: ${error instanceof Error ? error.message : error}`;
+          });
+        } else {
+          seedSince(s).catch((error) => {
+            s.lastError = `Could not read latest activity: ${error instanceof Error ? error.message : error}`;
+          });
+        }
+        return;
+      }
+
+      s.status = 'reconnecting';
+      s.lastError = err?.message ?? status;
+      // realtime-js rejoins by itself after CHANNEL_ERROR and TIMED_OUT
+      // (including when the socket drops); a closed channel must be recreated
+      if (status === 'CLOSED') resubscribe(s);
+    });
+}
+
+function resubscribe(s: Stream): void {
+  if (s.retryTimer) return;
+
+  const delay = Math.min(1000 * 2 ** s.retries, MAX_RETRY_DELAY_MS);
+  s.retries++;
+  s.retryTimer = setTimeout(async () => {
+    s.retryTimer = null;
+    if (s.status === 'stopped') return;
+    if (s.channel) await s.client.removeChannel(s.channel);
+    subscribe(s);
+  }, delay);
+}
+
+// Start the backfill point at the newest row already stored, which the
+// stream doesn't report. Rows arriving meanwhile may have moved it further.
+async function seedSince(s: Stream): Promise<void> {
+  const [messages, notifications] = await Promise.all([
+    s.client
+      .from('messages')
+      .select('id, created_at')
+      .eq('recipient_id', s.userId)
+      .order('created_at', { ascending: false })
+      .limit(1),
+    s.client
+      .from('notifications')
+      .select('id, created_at')
+      .eq('user_id', s.userId)
+      .order('created_at', { ascending: false })
+      .limit(1),
+  ]);
+  if (messages.error) throw messages.error;
+  if (notifications.error) throw notifications.error;
+
+  const newest = [
+    ...messages.data.map((row) => ({ key: `message:${row.id}`, created_at: row.created_at as string })),
+    ...notifications.data.map((row) => ({ key: `notification:${row.id}`, created_at: row.created_at as string })),
+  ];
+  // The backfill query is inclusive; don't report these rows later
+  newest.forEach((row) => s.seen.add(row.key));
+  // No rows yet: everything stored from now on is new
+  const seed = newest.reduce(
+    (latest, row) => (Date.parse(row.created_at) > Date.parse(latest) ? row.created_at : latest),
+    new Date(0).toISOString()
+  );
+  if (s.status === 'stopped') return;
+  if (!s.since || Date.parse(seed) > Date.parse(s.since)) s.since = seed;
+}
+
+// Fetch rows inserted while the channel was down. Realtime doesn't replay
+// missed changes; rows already delivered are skipped by id.
+async function backfill(s: Stream): Promise<void> {
+  const since = s.since;
+  if (!since) return;
+
+  const [messages, notifications] = await Promise.all([
+    s.client
+      .from('messages')
+      .select('*')
+      .eq('recipient_id', s.userId)
+      .gte('created_at', since)
+      .order('created_at', { ascending: true })
+      .limit(BACKFILL_LIMIT),
+    s.client
+      .from('notifications')
+      .select('*')
+      .eq('user_id', s.userId)
+      .neq('type', MESSAGE_NOTIFICATION)
+      .gte('created_at', since)
+      .order('created_at', { ascending: true })
+      .limit(BACKFILL_LIMIT),
+  ]);
+  if (messages.error) throw messages.error;
+  if (notifications.error) throw notifications.error;
+
+  const missed: Omit<Activity, 'seq'>[] = [
+    ...(messages.data as Message[]).map((data) => ({ type: 'message' as const, data })),
+    ...(notifications.data as Notification[]).map((data) => ({ type: 'notification' as const, data })),
+  ];
+  missed.sort((a, b) => Date.parse(a.data.created_at) - Date.parse(b.data.created_at));
+  missed.forEach((activity) => record(s, activity));
+}
+
+function record(s: Stream, activity: Omit<Activity, 'seq'>): void {
+  const key = `${activity.type}:${activity.data.id}`;
+  if (s.status === 'stopped' || s.seen.has(key)) return;
+
+  s.seen.add(key);
+  s.events.push({ ...activity, seq: ++s.seq } as Activity);
+  if (s.events.length > MAX_BUFFERED) {
+    const dropped = s.events.splice(0, s.events.length - MAX_BUFFERED);
+    dropped.forEach((e) => s.seen.delete(`${e.type}:${e.data.id}`));
+  }
+  if (!s.since || Date.parse(activity.data.created_at) > Date.parse(s.since)) {
+    s.since = activity.data.created_at;
+  }
+  s.waiters.forEach((wake) => wake());
+}
@@ -0,0 +1,218 @@
+import { spawn } from 'child_process';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { Session } from '@supabase/supabase-js';
+import { getProfileDir } from './profiles.js';
+
+// Where the CLI's login is kept between runs. The session includes the
+// refresh token, which is as good as a password until it's revoked.
+
+export interface SessionStore {
+  name: string;
+  load(): Promise<Session | null>;
+  save(session: Session): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Pre-SessionStore plaintext files, migrated on first use
+const LEGACY_SESSION_FILES = ['supabase_session.json', 'session.json'];
+
+// The active profile's directory (see profiles.ts); OPENGIG_SESSION_DIR
+// moves the whole tree somewhere else (tests point it at a temp dir)
+export function getSessionDir(): string {
+  return getProfileDir();
+}
+
+// Owner-only directory for session files
+export function ensureSessionDir(dir = getSessionDir()): void {
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+}
+
+// OS keychain through libsecret's secret-tool (GNOME Keyring, KWallet, ...).
+// Entries are keyed by session directory, so OPENGIG_SESSION_DIR also
+// separates keychain logins.
+export class KeychainSessionStore implements SessionStore {
+  name = 'keychain';
+
+  constructor(private dir = getSessionDir()) {}
+
+  // secret-tool is installed and a Secret Service answers on D-Bus
+  static async isAvailable(): Promise<boolean> {
+    try {
+      const { code, stderr } = await secretTool(['lookup', 'service', 'opengig', 'probe', 'availability']);
+      // Exit 1 with no output is "no such secret"; D-Bus failures print why
+      return code === 0 || (code === 1 && !stderr.trim());
+    } catch {
+      return false;
+    }
+  }
+
+  async load(): Promise<Session | null> {
+    const { code, stdout } = await secretTool(['lookup', ...this.attributes()]);
+    if (code !== 0 || !stdout.trim()) return null;
+    return parseSession(stdout);
+  }
+
+  async save(session: Session): Promise<void> {
+    const { code, stderr } = await secretTool(
+      ['store', '--label=opengig session', ...this.attributes()],
+      JSON.stringify(session)
+    );
+    if (code !== 0) {
+      throw new Error(`Could not save session to keychain: ${stderr.trim() || `secret-tool exited with ${code}`}`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await secretTool(['clear', ...this.attributes()]);
+  }
+
+  private attributes(): string[] {
+    return ['service', 'opengig', 'session_dir', this.dir];
+  }
+}
+
+// AES-256-GCM file with a random key beside it, both mode 0600. Keeps the
+// tokens out of backups, dotfile repos and casual `cat`s; it can't stop
+// other processes running as the same user, which is what the keychain is for.
+export class EncryptedFileSessionStore implements SessionStore {
+  name = 'encrypted-file';
+
+  constructor(private dir = getSessionDir()) {}
+
+  private get sessionFile(): string {
+    return join(this.dir, 'session.enc');
+  }
+
+  private get keyFile(): string {
+    return join(this.dir, 'session.key');
+  }
+
+  async load(): Promise<Session | null> {
+    if (!existsSync(this.sessionFile) || !existsSync(this.keyFile)) return null;
+    try {
+      const { iv, tag, data } = JSON.parse(readFileSync(this.sessionFile, 'utf-8'));
+      const decipher = createDecipheriv('aes-256-gcm', readFileSync(this.keyFile), Buffer.from(iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]);
+      return parseSession(plaintext.toString('utf-8'));
+    } catch {
+      // Corrupt, tampered with, or encrypted under a different key
+      return null;
+    }
+  }
+
+  async save(session: Session): Promise<void> {
+    ensureSessionDir(this.dir);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key(), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(session), 'utf-8'), cipher.final()]);
+
+    writePrivate(
+      this.sessionFile,
+      JSON.stringify({
+        v: 1,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      })
+    );
+  }
+
+  async clear(): Promise<void> {
+    if (existsSync(this.sessionFile)) {
+      unlinkSync(this.sessionFile);
+    }
+  }
+
+  private key(): Buffer {
+    if (existsSync(this.keyFile)) {
+      const key = readFileSync(this.keyFile);
+      if (key.length === 32) return key;
+    }
+    const key = randomBytes(32);
+    writePrivate(this.keyFile, key);
+    return key;
+  }
+}
+
+// OPENGIG_SESSION_STORE picks the backend (keychain | file); by default the
+// keychain where libsecret is usable, the encrypted file otherwise
+export async function sessionStoreFromEnv(dir = getSessionDir()): Promise<SessionStore> {
+  const backend = process.env.OPENGIG_SESSION_STORE;
+  let store: SessionStore;
+  switch (backend) {
+    case 'keychain':
+      store = new KeychainSessionStore(dir);
+      break;
+    case 'file':
+      store = new EncryptedFileSessionStore(dir);
+      break;
+    case undefined:
+    case '':
+      store = (await KeychainSessionStore.isAvailable())
+        ? new KeychainSessionStore(dir)
+        : new EncryptedFileSessionStore(dir);
+      break;
+    default:
+      throw new Error(`Unknown OPENGIG_SESSION_STORE "${backend}" (use keychain or file)`);
+  }
+
+  await migratePlaintextSession(store, dir);
+  return store;
+}
+
+// Move a session written by older versions into the store, then delete the
+// plaintext copies. A session already in the store wins.
+export async function migratePlaintextSession(store: SessionStore, dir = getSessionDir()): Promise<void> {
+  const legacy = LEGACY_SESSION_FILES.map((file) => join(dir, file)).filter((file) => existsSync(file));
+  if (legacy.length === 0) return;
+
+  if (!(await store.load())) {
+    for (const file of legacy) {
+      const session = parseSession(readFileSync(file, 'utf-8'));
+      if (session) {
+        await store.save(session);
+        break;
+      }
+    }
+  }
+  legacy.forEach((file) => unlinkSync(file));
+}
+
+function parseSession(text: string): Session | null {
+  try {
+    const session = JSON.parse(text);
+    return typeof session?.access_token === 'string' && typeof session?.refresh_token === 'string'
+      ? (session as Session)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Write via a 0600 temp file and rename, so the content is never readable
+// by others, even briefly or when replacing a file with looser permissions
+function writePrivate(file: string, content: string | Buffer): void {
+  const temp = `${file}.${process.pid}.tmp`;
+  writeFileSync(temp, content, { mode: 0o600 });
+  chmodSync(temp, 0o600);
+  renameSync(temp, file);
+}
+
+function secretTool(args: string[], input?: string): Promise<{ code: number; stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    // A locked keyring can sit on an unlock prompt; don't hang the CLI on it
+    const child = spawn('secret-tool', args, { stdio: ['pipe', 'pipe', 'pipe'], timeout: 10_000 });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (chunk) => { stdout += chunk; });
+    child.stderr.on('data', (chunk) => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', (code) => resolve({ code: code ?? 1, stdout, stderr }));
+    child.stdin.end(input);
+  });
+}
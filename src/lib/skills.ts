@@ -0,0 +1,32 @@
+import { getSupabase } from './supabase.js';
+import type { SkillSuggestion } from '../types.js';
+
+// Map skills to their canonical catalog names ("React.js" -> "react"),
+// dropping blanks and duplicates. Unknown skills are kept, lowercased.
+export async function normalizeSkills(skills: string[]): Promise<string[]> {
+  if (skills.length === 0) return [];
+
+  const db = getSupabase();
+  const { data, error } = await db.rpc('normalize_skills', { skill_list: skills });
+  if (error) throw error;
+  return (data as string[] | null) || [];
+}
+
+// Expand a skill filter to everything it should match: canonical names,
+// aliases, and child skills (e.g. "javascript" also matches "typescript")
+export async function expandSkills(skills: string[]): Promise<string[]> {
+  if (skills.length === 0) return [];
+
+  const db = getSupabase();
+  const { data, error } = await db.rpc('expand_skills', { skill_list: skills });
+  if (error) throw error;
+  return (data as string[] | null) || [];
+}
+
+// Autocomplete skill names from the catalog
+export async function suggestSkills(prefix: string, limit = 10): Promise<SkillSuggestion[]> {
+  const db = getSupabase();
+  const { data, error } = await db.rpc('suggest_skills', { prefix, max_results: limit });
+  if (error) throw error;
+  return (data as SkillSuggestion[] | null) || [];
+}
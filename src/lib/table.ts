@@ -0,0 +1,23 @@
+// Plain-text tables for CLI output
+
+// Longest a cell may be before it's cut with an ellipsis
+const MAX_CELL_WIDTH = 48;
+
+function truncate(value: string, width: number): string {
+  const oneLine = value.replace(/\s+/g, ' ').trim();
+  return oneLine.length > width ? `${oneLine.slice(0, width - 1)}…` : oneLine;
+}
+
+// Align rows under headers, two spaces between columns
+export function formatTable(headers: string[], rows: string[][], maxCellWidth = MAX_CELL_WIDTH): string {
+  const cells = rows.map((row) => row.map((cell) => truncate(cell, maxCellWidth)));
+  const widths = headers.map((header, i) => Math.max(header.length, ...cells.map((row) => (row[i] ?? '').length)));
+
+  const line = (row: string[]) =>
+    row
+      .map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i])))
+      .join('  ')
+      .trimEnd();
+
+  return [line(headers), line(widths.map((w) => '-'.repeat(w))), ...cells.map(line)].join('\n');
+}
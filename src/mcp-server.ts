@@ -6,7 +6,7 @@
  */
 
 import 'dotenv/config';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
 import {
@@ -16,14 +16,101 @@ import {
   ensureConfigDir,
   isAuthenticated,
   getSession,
+  isSessionRevoked,
+  sessionRevokedMessage,
 } from './lib/supabase.js';
-import type { Listing, User, Message } from './types.js';
+import { authCommand } from './lib/profiles.js';
+import { updateProfile, normalizeTimezone } from './lib/profile.js';
+import { requestAiMatches, AiMatchUnavailableError } from './lib/ai-match.js';
+import { normalizeSkills, suggestSkills } from './lib/skills.js';
+import { normalizeCurrency } from './lib/rates.js';
+import { geocode, locationColumns } from './lib/geo.js';
+import { startActivityStream, stopActivityStream, waitForActivity, activityStreamState } from './lib/realtime.js';
+import { keysetFilter, decodeCursor, paginate } from './lib/pagination.js';
+import {
+  searchListings,
+  createListing,
+  getMyListings,
+  getConversations,
+  getMessages,
+  sendMessage,
+  parseRateLimit,
+  getSavedSearches,
+  runSavedSearch,
+  attachReputation,
+  scoreListings,
+  LISTING_FIELDS,
+  SAVED_SEARCH_FIELDS,
+} from './lib/marketplace.js';
+import type {
+  Listing,
+  ListingRevision,
+  ListingRecommendation,
+  User,
+  Message,
+  Proposal,
+  Review,
+  Match,
+} from './types.js';
 
 const server = new McpServer({
   name: 'opengig',
   version: '0.3.0',
 });
 
+// ============================================
+// Pagination (see lib/pagination.ts)
+// ============================================
+
+const pageParams = {
+  limit: z.number().int().min(1).max(100).optional().default(20).describe('Maximum number of results per page'),
+  cursor: z.string().optional().describe('Optional: next_cursor from a previous response to fetch the next page'),
+};
+
+// ============================================
+// Rate limits
+// ============================================
+// Messaging limits are enforced in Postgres (013_message_rate_limits.sql),
+// which rejects inserts with SQLSTATE PT429 and JSON details. Turn that into
+// a structured tool result Claude can explain to the user.
+
+function rateLimitResult(error: unknown) {
+  const limited = parseRateLimit(error);
+  if (!limited) return null;
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: 'rate_limited',
+          ...limited,
+        }),
+      },
+    ],
+  };
+}
+
+// ============================================
+// Authentication
+// ============================================
+// Tools say why they can't act: never logged in, or a saved login that
+// Supabase Auth has since rejected, which needs a fresh `opengig auth`.
+
+// The server's profile comes from OPENGIG_PROFILE in its MCP entry
+function authActionNeeded(): string {
+  return `Direct user to run: ${authCommand()} (in a separate terminal)`;
+}
+
+function notAuthenticatedResult() {
+  const body = isSessionRevoked()
+    ? { error: 'session_revoked', message: sessionRevokedMessage(), action_needed: authActionNeeded() }
+    : { error: 'Not authenticated', action_needed: authActionNeeded() };
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify(body) }],
+  };
+}
+
 // ============================================
 // TOOL: auth_status
 // ============================================
@@ -40,8 +127,11 @@ server.tool(
             type: 'text',
             text: JSON.stringify({
               authenticated: false,
-              message: 'Not logged in. User needs to authenticate with LinkedIn.',
-              action_needed: 'Direct user to run: npx opengig auth (in a separate terminal)',
+              session_revoked: isSessionRevoked(),
+              message: isSessionRevoked()
+                ? sessionRevokedMessage()
+                : 'Not logged in. User needs to authenticate with LinkedIn.',
+              action_needed: authActionNeeded(),
             }),
           },
         ],
@@ -80,13 +170,15 @@ server.tool(
             text: JSON.stringify({
               authenticated: false,
               message: 'Session expired. User needs to re-authenticate.',
-              action_needed: 'Direct user to run: npx opengig auth (in a separate terminal)',
+              action_needed: authActionNeeded(),
             }),
           },
         ],
       };
     }
 
+    await attachReputation([user]);
+
     return {
       content: [
         {
@@ -101,6 +193,11 @@ server.tool(
               email: user.email,
               email_verified: user.email_verified,
               phone: user.phone,
+              bio: user.bio,
+              timezone: user.timezone,
+              portfolio_links: user.portfolio_links,
+              skills: user.skills,
+              reputation: user.reputation,
             },
           }),
         },
@@ -109,6 +206,67 @@ server.tool(
   }
 );
 
+// ============================================
+// TOOL: update_profile
+// ============================================
+server.tool(
+  'update_profile',
+  'Update your public profile (headline, phone, bio, timezone, portfolio links, default skills)',
+  {
+    headline: z.string().nullable().optional().describe('Professional headline (null to clear)'),
+    phone: z
+      .string()
+      .nullable()
+      .optional()
+      .describe('Phone number, ideally in international format like +14155552671 (null to clear)'),
+    phone_country: z
+      .string()
+      .optional()
+      .describe('Optional: ISO country code (e.g., "US") if the phone number is in national format'),
+    bio: z.string().nullable().optional().describe('Short bio (null to clear)'),
+    timezone: z.string().nullable().optional().describe('IANA timezone, e.g. "America/New_York" (null to clear)'),
+    portfolio_links: z.array(z.string()).optional().describe('Portfolio / website links (replaces the existing list)'),
+    skills: z.array(z.string()).optional().describe('Default skills list (replaces the existing list)'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const { phone_country, ...update } = params;
+      const profile = await updateProfile(user.id, update, { phoneCountry: phone_country });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'Profile updated!',
+              profile: {
+                id: profile.id,
+                name: profile.name,
+                headline: profile.headline,
+                phone: profile.phone,
+                bio: profile.bio,
+                timezone: profile.timezone,
+                portfolio_links: profile.portfolio_links,
+                skills: profile.skills,
+              },
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to update profile: ${error}` }) }],
+      };
+    }
+  }
+);
+
 // ============================================
 // TOOL: create_listing
 // ============================================
@@ -120,44 +278,37 @@ server.tool(
     title: z.string().describe('Title of the listing (e.g., "Senior React Developer" or "Looking for Frontend Work")'),
     description: z.string().describe('Detailed description of the role or your experience'),
     skills: z.array(z.string()).describe('Array of relevant skills (e.g., ["react", "typescript", "node"])'),
-    rate_min: z.number().optional().describe('Minimum rate in USD'),
-    rate_max: z.number().optional().describe('Maximum rate in USD'),
+    rate_min: z.number().optional().describe('Minimum rate (hourly, or total for fixed-price work)'),
+    rate_max: z.number().optional().describe('Maximum rate (hourly, or total for fixed-price work)'),
     rate_type: z.enum(['hourly', 'fixed', 'negotiable']).optional().describe('How the rate is structured'),
+    currency: z.string().optional().default('USD').describe('Currency of the rate (3-letter code, e.g. USD, EUR)'),
+    estimated_hours: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('For fixed-price work: estimated hours, so the rate can be compared with hourly rates in searches'),
     remote: z.boolean().default(true).describe('Whether remote work is accepted'),
-    location: z.string().optional().describe('Location if not fully remote'),
+    location: z.string().optional().describe('Location if not fully remote (e.g. "Austin, TX" or "Remote (US)")'),
+    timezone: z
+      .string()
+      .optional()
+      .describe('IANA timezone you work in, e.g. "America/New_York" (defaults to the location\'s, then your profile\'s)'),
+    timezone_window_hours: z
+      .number()
+      .min(0)
+      .max(12)
+      .optional()
+      .describe('Only match counterparts within this many hours of your timezone (e.g. 3 for ±3 hours)'),
   },
   async (params) => {
     const user = await getCurrentUser();
     if (!user) {
-      return {
-        content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated. User needs to login first.' }) }],
-      };
+      return notAuthenticatedResult();
     }
 
     try {
-      const db = getSupabase();
-
-      // Set expiration to 30 days from now
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 30);
-
-      const listing: Partial<Listing> = {
-        user_id: user.id,
-        type: params.type,
-        title: params.title,
-        description: params.description,
-        skills: params.skills.map((s) => s.toLowerCase()),
-        rate_min: params.rate_min,
-        rate_max: params.rate_max,
-        rate_type: params.rate_type,
-        remote: params.remote,
-        location: params.location,
-        active: true,
-        expires_at: expiresAt.toISOString(),
-      };
-
-      const { data, error } = await db.from('listings').insert(listing).select().single();
-      if (error) throw error;
+      const { listing, note } = await createListing(user, params);
 
       return {
         content: [
@@ -165,9 +316,10 @@ server.tool(
             type: 'text',
             text: JSON.stringify({
               success: true,
-              listing_id: data.id,
+              listing_id: listing.id,
               message: `${params.type === 'job' ? 'Job' : 'Availability'} listing created successfully!`,
-              listing: data,
+              note,
+              listing,
             }),
           },
         ],
@@ -187,78 +339,67 @@ server.tool(
   'search_listings',
   'Search for jobs or available freelancers using natural language',
   {
-    query: z.string().describe('Natural language search query (e.g., "react developer who knows AWS")'),
+    query: z
+      .string()
+      .describe(
+        'Search keywords, ranked by full-text relevance (e.g., "react developer who knows aws"). Listings matching more terms rank higher; quotes for phrases, -word to exclude'
+      ),
     type: z.enum(['jobs', 'talent']).describe('Search for "jobs" (to find work) or "talent" (to hire)'),
-    skills_filter: z.array(z.string()).optional().describe('Optional: filter by specific skills'),
-    rate_min: z.number().optional().describe('Optional: minimum rate to filter by'),
-    rate_max: z.number().optional().describe('Optional: maximum rate to filter by'),
+    skills_filter: z
+      .array(z.string())
+      .optional()
+      .describe('Optional: filter by specific skills (also matches aliases and sub-skills, e.g. "javascript" includes "typescript")'),
+    rate_min: z.number().optional().describe('Optional: minimum hourly rate (fixed-price listings are compared by their hourly equivalent)'),
+    rate_max: z.number().optional().describe('Optional: maximum hourly rate'),
+    currency: z.string().optional().default('USD').describe('Currency of rate_min/rate_max (3-letter code)'),
+    include_negotiable: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe('When filtering by rate, also include listings without a comparable rate (negotiable, or fixed price with no hours estimate)'),
     remote_only: z.boolean().optional().describe('Optional: only show remote positions'),
     posted_within_days: z.number().optional().describe('Optional: only show listings posted within X days'),
-    location: z.string().optional().describe('Optional: filter by location (partial match)'),
+    location: z
+      .string()
+      .optional()
+      .describe('Optional: filter by place (city, state/province or country, e.g. "NYC", "Ontario", "Germany")'),
+    near: z.string().optional().describe('Optional: only listings within radius_km of this city (e.g. "Austin, TX")'),
+    radius_km: z.number().positive().optional().default(50).describe('Radius for "near", in kilometres'),
+    timezone: z
+      .string()
+      .optional()
+      .describe('Optional: only listings whose timezone overlaps this IANA timezone (defaults to your profile timezone when timezone_window_hours is set)'),
+    timezone_window_hours: z
+      .number()
+      .min(0)
+      .max(12)
+      .optional()
+      .describe('Maximum hours between your timezone and the listing\'s (default 3 when filtering by timezone)'),
+    semantic: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe('Also match by meaning, so related terms match (e.g., "frontend" finds react listings). Set false for keyword-only search'),
+    ...pageParams,
   },
   async (params) => {
     const user = await getCurrentUser();
     if (!user) {
-      return {
-        content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated' }) }],
-      };
+      return notAuthenticatedResult();
     }
 
     try {
-      const db = getSupabase();
-      const listingType = params.type === 'jobs' ? 'job' : 'available';
-
-      let query = db
-        .from('listings')
-        .select(
-          `
-          *,
-          user:users (id, name, headline, linkedin_url)
-        `
-        )
-        .eq('type', listingType)
-        .eq('active', true)
-        .neq('user_id', user.id)
-        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
-
-      if (params.remote_only) {
-        query = query.eq('remote', true);
-      }
-
-      if (params.rate_min) {
-        query = query.gte('rate_max', params.rate_min);
-      }
-
-      if (params.rate_max) {
-        query = query.lte('rate_min', params.rate_max);
-      }
-
-      if (params.skills_filter && params.skills_filter.length > 0) {
-        query = query.overlaps('skills', params.skills_filter.map((s) => s.toLowerCase()));
-      }
-
-      if (params.posted_within_days) {
-        const cutoffDate = new Date();
-        cutoffDate.setDate(cutoffDate.getDate() - params.posted_within_days);
-        query = query.gte('created_at', cutoffDate.toISOString());
-      }
-
-      if (params.location) {
-        query = query.ilike('location', `%${params.location}%`);
-      }
-
-      const { data: listings, error } = await query
-        .order('created_at', { ascending: false })
-        .limit(20);
-      if (error) throw error;
+      const { results, semantic, next_cursor } = await searchListings(user, params);
 
-      if (!listings || listings.length === 0) {
+      if (results.length === 0) {
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 results: [],
+                semantic,
+                next_cursor: null,
                 message: 'No matches found. Try broadening your search or check back later.',
               }),
             },
@@ -266,18 +407,17 @@ server.tool(
         };
       }
 
-      // Score and rank results based on query
-      const scoredResults = scoreListings(listings, params.query);
-
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
-              results: scoredResults,
-              total: scoredResults.length,
+              results,
+              total: results.length,
               search_type: params.type,
               query: params.query,
+              semantic,
+              next_cursor,
             }),
           },
         ],
@@ -290,83 +430,155 @@ server.tool(
   }
 );
 
-// Simple scoring function (Claude will do the real analysis)
-function scoreListings(
-  listings: (Listing & { user: User })[],
-  query: string
-): Array<{ listing: Listing; user: User; relevance_hints: string[] }> {
-  const queryWords = query.toLowerCase().split(/\s+/).filter((w) => w.length > 2);
+// ============================================
+// TOOL: smart_match
+// ============================================
+server.tool(
+  'smart_match',
+  'AI-ranked matches for a natural language request, with a score and reasons per match. Falls back to keyword search if AI matching is unavailable',
+  {
+    query: z.string().describe('What you are looking for, in plain language (e.g., "senior react dev, remote, fintech experience")'),
+    type: z.enum(['jobs', 'talent']).describe('Search for "jobs" (to find work) or "talent" (to hire)'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
 
-  return listings.map((item) => {
-    const hints: string[] = [];
-    const searchText = `${item.title} ${item.description} ${item.skills.join(' ')}`.toLowerCase();
+    try {
+      const matches = await requestAiMatches(params.query, params.type);
+      await attachReputation(matches.map((m) => m.user));
 
-    queryWords.forEach((word) => {
-      if (searchText.includes(word)) {
-        hints.push(`Matches "${word}"`);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              mode: 'ai',
+              matches,
+              total: matches.length,
+              search_type: params.type,
+              query: params.query,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      if (!(error instanceof AiMatchUnavailableError)) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ error: `Smart match failed: ${error}` }) }],
+        };
       }
-    });
 
-    item.skills.forEach((skill) => {
-      if (queryWords.some((w) => skill.includes(w) || w.includes(skill))) {
-        hints.push(`Has skill: ${skill}`);
+      // Degrade to full-text search so the user still gets results
+      try {
+        const db = getSupabase();
+        const { data: rows, error: searchError } = await db
+          .rpc('search_listings', {
+            search_query: params.query,
+            listing_type: params.type === 'jobs' ? 'job' : 'available',
+          })
+          .neq('user_id', user.id)
+          .order('rank', { ascending: false })
+          .order('created_at', { ascending: false })
+          .limit(10);
+
+        if (searchError) throw searchError;
+
+        const listings = (rows || []) as (Listing & { user: User; rank: number })[];
+        await attachReputation(listings.map((l) => l.user));
+
+        const matches: Match[] = listings.map(({ user: poster, rank, ...listing }) => ({
+          listing,
+          user: poster,
+          score: rank,
+          reasons: scoreListings([{ ...listing, user: poster }], params.query)[0].relevance_hints,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                mode: 'keyword_fallback',
+                fallback_reason: error.message,
+                matches,
+                total: matches.length,
+                search_type: params.type,
+                query: params.query,
+              }),
+            },
+          ],
+        };
+      } catch (fallbackError) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ error: `Smart match failed: ${fallbackError}` }) }],
+        };
       }
-    });
+    }
+  }
+);
 
-    return {
-      listing: {
-        id: item.id,
-        type: item.type,
-        title: item.title,
-        description: item.description,
-        skills: item.skills,
-        rate_min: item.rate_min,
-        rate_max: item.rate_max,
-        rate_type: item.rate_type,
-        remote: item.remote,
-        location: item.location,
-        created_at: item.created_at,
-      } as Listing,
-      user: item.user,
-      relevance_hints: hints,
-    };
-  });
-}
+// ============================================
+// TOOL: suggest_skills
+// ============================================
+server.tool(
+  'suggest_skills',
+  'Autocomplete skill names from the skills catalog. Use canonical names when creating listings or filtering searches',
+  {
+    prefix: z.string().min(1).describe('Start of a skill name or alias (e.g., "reac", "k8s")'),
+    limit: z.number().int().min(1).max(50).optional().default(10).describe('Maximum suggestions to return'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const suggestions = await suggestSkills(params.prefix, params.limit);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              suggestions,
+              total: suggestions.length,
+              message: suggestions.length === 0 ? 'No catalog skills match. Unlisted skills can still be used as-is.' : undefined,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to suggest skills: ${error}` }) }],
+      };
+    }
+  }
+);
 
 // ============================================
 // TOOL: get_conversations
 // ============================================
-server.tool('get_conversations', 'Get all conversations for the current user', {}, async () => {
+server.tool('get_conversations', 'Get conversations for the current user, most recently active first, with their last message and unread count', pageParams, async (params) => {
   const user = await getCurrentUser();
   if (!user) {
-    return {
-      content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated' }) }],
-    };
+    return notAuthenticatedResult();
   }
 
   try {
-    const db = getSupabase();
+    const { conversations, next_cursor } = await getConversations(user, params);
 
-    const { data: conversations, error } = await db
-      .from('conversations')
-      .select(
-        `
-        *,
-        messages (id, content, sender_id, read, created_at)
-      `
-      )
-      .contains('participant_ids', [user.id])
-      .order('last_message_at', { ascending: false });
-
-    if (error) throw error;
-
-    if (!conversations || conversations.length === 0) {
+    if (conversations.length === 0) {
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
               conversations: [],
+              next_cursor: null,
               message: 'No conversations yet. Start by searching for opportunities and messaging someone!',
             }),
           },
@@ -374,39 +586,8 @@ server.tool('get_conversations', 'Get all conversations for the current user', {
       };
     }
 
-    // Get other users' info
-    const otherUserIds = conversations.flatMap((c) =>
-      c.participant_ids.filter((id: string) => id !== user.id)
-    );
-
-    const { data: users } = await db.from('users').select('id, name, headline').in('id', otherUserIds);
-    const userMap = new Map((users || []).map((u) => [u.id, u]));
-
-    const enriched = conversations.map((conv) => {
-      const otherUserId = conv.participant_ids.find((id: string) => id !== user.id);
-      const otherUser = userMap.get(otherUserId);
-      const messages = conv.messages || [];
-      const unreadCount = messages.filter((m: Message) => m.sender_id !== user.id && !m.read).length;
-      const lastMessage = messages.sort(
-        (a: Message, b: Message) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      )[0];
-
-      return {
-        id: conv.id,
-        other_user: otherUser || { id: otherUserId, name: 'Unknown' },
-        unread_count: unreadCount,
-        last_message: lastMessage
-          ? {
-              preview: lastMessage.content.substring(0, 100),
-              sent_by_me: lastMessage.sender_id === user.id,
-              timestamp: lastMessage.created_at,
-            }
-          : null,
-      };
-    });
-
     return {
-      content: [{ type: 'text', text: JSON.stringify({ conversations: enriched }) }],
+      content: [{ type: 'text', text: JSON.stringify({ conversations, next_cursor }) }],
     };
   } catch (error) {
     return {
@@ -424,62 +605,19 @@ server.tool(
   {
     recipient_id: z.string().describe('User ID of the recipient'),
     message: z.string().describe('Message content'),
-    listing_id: z.string().optional().describe('Optional: ID of the listing this conversation is about'),
+    listing_id: z
+      .string()
+      .optional()
+      .describe('Optional: ID of the listing this is about. Each listing gets its own thread with the recipient'),
   },
   async (params) => {
     const user = await getCurrentUser();
     if (!user) {
-      return {
-        content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated' }) }],
-      };
+      return notAuthenticatedResult();
     }
 
     try {
-      const db = getSupabase();
-
-      // Get or create conversation
-      const participantIds = [user.id, params.recipient_id].sort();
-
-      let conversation;
-      const { data: existingConv } = await db
-        .from('conversations')
-        .select('*')
-        .contains('participant_ids', participantIds)
-        .single();
-
-      if (existingConv) {
-        conversation = existingConv;
-      } else {
-        const { data: newConv, error: convError } = await db
-          .from('conversations')
-          .insert({
-            participant_ids: participantIds,
-            listing_id: params.listing_id,
-            last_message_at: new Date().toISOString(),
-          })
-          .select()
-          .single();
-
-        if (convError) throw convError;
-        conversation = newConv;
-      }
-
-      // Send message
-      const { error: msgError } = await db.from('messages').insert({
-        conversation_id: conversation.id,
-        sender_id: user.id,
-        recipient_id: params.recipient_id,
-        content: params.message,
-        read: false,
-      });
-
-      if (msgError) throw msgError;
-
-      // Update conversation timestamp
-      await db
-        .from('conversations')
-        .update({ last_message_at: new Date().toISOString() })
-        .eq('id', conversation.id);
+      const { conversation_id } = await sendMessage(user, params.recipient_id, params.message, params.listing_id);
 
       return {
         content: [
@@ -488,12 +626,21 @@ server.tool(
             text: JSON.stringify({
               success: true,
               message: 'Message sent successfully!',
-              conversation_id: conversation.id,
+              conversation_id,
             }),
           },
         ],
       };
     } catch (error) {
+      const limited = rateLimitResult(error);
+      if (limited) return limited;
+
+      // RLS rejects messages and new conversations between blocked users
+      if ((error as { code?: string }).code === '42501') {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ error: 'Message not sent: you cannot message this user' }) }],
+        };
+      }
       return {
         content: [{ type: 'text', text: JSON.stringify({ error: `Failed to send message: ${error}` }) }],
       };
@@ -509,46 +656,21 @@ server.tool(
   'Get messages from a specific conversation',
   {
     conversation_id: z.string().describe('ID of the conversation'),
-    mark_as_read: z.boolean().default(true).describe('Mark messages as read'),
+    mark_as_read: z.boolean().default(true).describe('Mark the returned messages as read'),
+    limit: pageParams.limit,
+    cursor: z.string().optional().describe('Optional: next_cursor from a previous response to load older messages'),
   },
   async (params) => {
     const user = await getCurrentUser();
     if (!user) {
-      return {
-        content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated' }) }],
-      };
+      return notAuthenticatedResult();
     }
 
     try {
-      const db = getSupabase();
-
-      const { data: messages, error } = await db
-        .from('messages')
-        .select('*')
-        .eq('conversation_id', params.conversation_id)
-        .order('created_at', { ascending: true });
-
-      if (error) throw error;
-
-      // Mark as read if requested
-      if (params.mark_as_read) {
-        await db
-          .from('messages')
-          .update({ read: true })
-          .eq('conversation_id', params.conversation_id)
-          .neq('sender_id', user.id);
-      }
-
-      const formatted = (messages || []).map((msg: Message) => ({
-        id: msg.id,
-        content: msg.content,
-        sent_by_me: msg.sender_id === user.id,
-        timestamp: msg.created_at,
-        read: msg.read,
-      }));
+      const { messages, next_cursor } = await getMessages(user, params.conversation_id, params);
 
       return {
-        content: [{ type: 'text', text: JSON.stringify({ messages: formatted }) }],
+        content: [{ type: 'text', text: JSON.stringify({ messages, next_cursor }) }],
       };
     } catch (error) {
       return {
@@ -574,9 +696,7 @@ server.tool(
   async (params) => {
     const user = await getCurrentUser();
     if (!user) {
-      return {
-        content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated' }) }],
-      };
+      return notAuthenticatedResult();
     }
 
     try {
@@ -594,12 +714,14 @@ server.tool(
       const { error } = await db.from('contact_shares').insert(shareData);
       if (error) throw error;
 
-      // Also send a message notification
+      // Also send a message notification in your most recent thread together
       const { data: conversation } = await db
         .from('conversations')
         .select('id')
         .contains('participant_ids', [user.id, params.recipient_id])
-        .single();
+        .order('last_message_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
 
       if (conversation) {
         let notificationContent = `📧 I'm sharing my contact info with you:\n`;
@@ -642,101 +764,371 @@ server.tool(
 );
 
 // ============================================
-// TOOL: get_my_listings
-// ============================================
-server.tool('get_my_listings', 'Get current user\'s active listings', {}, async () => {
-  const user = await getCurrentUser();
-  if (!user) {
-    return {
-      content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated' }) }],
-    };
-  }
-
-  try {
-    const db = getSupabase();
-
-    const { data: listings, error } = await db
-      .from('listings')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('active', true)
-      .order('created_at', { ascending: false });
-
-    if (error) throw error;
-
-    // Add expiration status to each listing
-    const now = new Date();
-    const enrichedListings = (listings || []).map((listing: Listing) => {
-      const expiresAt = listing.expires_at ? new Date(listing.expires_at) : null;
-      const daysUntilExpiration = expiresAt
-        ? Math.ceil((expiresAt.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
-        : null;
-
-      return {
-        ...listing,
-        expiration_status: !expiresAt || daysUntilExpiration === null
-          ? 'no_expiration'
-          : daysUntilExpiration <= 0
-            ? 'expired'
-            : daysUntilExpiration <= 7
-              ? 'expiring_soon'
-              : 'active',
-        days_until_expiration: daysUntilExpiration,
-      };
-    });
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            listings: enrichedListings,
-            count: enrichedListings.length,
-          }),
-        },
-      ],
-    };
-  } catch (error) {
-    return {
-      content: [{ type: 'text', text: JSON.stringify({ error: `Failed to get listings: ${error}` }) }],
-    };
-  }
-});
-
-// ============================================
-// TOOL: renew_listing
+// TOOL: block_user
 // ============================================
 server.tool(
-  'renew_listing',
-  'Renew a listing for another 30 days',
+  'block_user',
+  'Block a user: stops messages in both directions and hides their listings from you',
   {
-    listing_id: z.string().describe('ID of the listing to renew'),
+    user_id: z.string().describe('User ID to block'),
+    reason: z.string().optional().describe('Optional: private note on why (not shared with them)'),
   },
   async (params) => {
     const user = await getCurrentUser();
     if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    if (params.user_id === user.id) {
       return {
-        content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated' }) }],
+        content: [{ type: 'text', text: JSON.stringify({ error: 'You cannot block yourself' }) }],
       };
     }
 
     try {
       const db = getSupabase();
 
-      // Calculate new expiration (30 days from now)
-      const newExpiration = new Date();
-      newExpiration.setDate(newExpiration.getDate() + 30);
-
-      const { data, error } = await db
-        .from('listings')
-        .update({
-          expires_at: newExpiration.toISOString(),
-          active: true, // Re-activate if it was expired
-        })
-        .eq('id', params.listing_id)
-        .eq('user_id', user.id)
-        .select()
-        .single();
+      // Blocking twice is a no-op (blocks can't be updated, only removed)
+      const { error } = await db
+        .from('user_blocks')
+        .upsert(
+          { blocker_id: user.id, blocked_id: params.user_id, reason: params.reason },
+          { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true }
+        );
+
+      if (error) throw error;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'User blocked. They can no longer message you and their listings are hidden.',
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to block user: ${error}` }) }],
+      };
+    }
+  }
+);
+
+// ============================================
+// TOOL: unblock_user
+// ============================================
+server.tool(
+  'unblock_user',
+  'Unblock a previously blocked user',
+  {
+    user_id: z.string().describe('User ID to unblock'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const db = getSupabase();
+
+      const { error } = await db
+        .from('user_blocks')
+        .delete()
+        .eq('blocker_id', user.id)
+        .eq('blocked_id', params.user_id);
+
+      if (error) throw error;
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'User unblocked' }) }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to unblock user: ${error}` }) }],
+      };
+    }
+  }
+);
+
+const reportCategory = z
+  .enum(['spam', 'scam', 'harassment', 'inappropriate', 'impersonation', 'other'])
+  .describe('Reason category');
+
+// ============================================
+// TOOL: report_user
+// ============================================
+server.tool(
+  'report_user',
+  'Report a user to the opengig moderators',
+  {
+    user_id: z.string().describe('User ID to report'),
+    category: reportCategory,
+    details: z.string().optional().describe('Optional: what happened'),
+    conversation_id: z.string().optional().describe('Optional: conversation where it happened'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const db = getSupabase();
+
+      const { data, error } = await db
+        .from('reports')
+        .insert({
+          reporter_id: user.id,
+          reported_user_id: params.user_id,
+          conversation_id: params.conversation_id,
+          category: params.category,
+          details: params.details,
+        })
+        .select('id, status')
+        .single();
+
+      if (error) throw error;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'Report submitted. Moderators will review it. You can also block this user.',
+              report: data,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to report user: ${error}` }) }],
+      };
+    }
+  }
+);
+
+// ============================================
+// TOOL: report_listing
+// ============================================
+server.tool(
+  'report_listing',
+  'Report a listing to the opengig moderators',
+  {
+    listing_id: z.string().describe('ID of the listing to report'),
+    category: reportCategory,
+    details: z.string().optional().describe('Optional: what is wrong with it'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const db = getSupabase();
+
+      // Record the poster too, when the listing is still visible
+      const { data: listing } = await db.from('listings').select('user_id').eq('id', params.listing_id).single();
+
+      const { data, error } = await db
+        .from('reports')
+        .insert({
+          reporter_id: user.id,
+          reported_user_id: listing?.user_id,
+          listing_id: params.listing_id,
+          category: params.category,
+          details: params.details,
+        })
+        .select('id, status')
+        .single();
+
+      if (error) throw error;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'Report submitted. Moderators will review this listing.',
+              report: data,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to report listing: ${error}` }) }],
+      };
+    }
+  }
+);
+
+// ============================================
+// TOOL: get_my_listings
+// ============================================
+server.tool('get_my_listings', 'Get current user\'s active listings', {}, async () => {
+  const user = await getCurrentUser();
+  if (!user) {
+    return notAuthenticatedResult();
+  }
+
+  try {
+    const listings = await getMyListings(user);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            listings,
+            count: listings.length,
+          }),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ error: `Failed to get listings: ${error}` }) }],
+    };
+  }
+});
+
+// ============================================
+// TOOL: recommend_for_listing
+// ============================================
+server.tool(
+  'recommend_for_listing',
+  'Recommend counterpart listings for one of your listings: freelancers for your job posts, or jobs for your availability. Ranked by skills, rate, location and recency, with reasons',
+  {
+    listing_id: z.string().describe('ID of your listing (from get_my_listings)'),
+    limit: z.number().int().min(1).max(50).optional().default(10).describe('Maximum recommendations to return'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const db = getSupabase();
+
+      const { data: listing, error: listingError } = await db
+        .from('listings')
+        .select('id, type, title')
+        .eq('id', params.listing_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (listingError) throw listingError;
+      if (!listing) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ error: 'Listing not found or not yours' }) }],
+        };
+      }
+
+      // Scoring lives in score_listing_matches (017_listing_recommendations.sql)
+      const { data: rows, error } = await db
+        .rpc('recommend_for_listing', { source_listing_id: params.listing_id })
+        .order('score', { ascending: false })
+        .order('created_at', { ascending: false })
+        .limit(params.limit);
+
+      if (error) throw error;
+
+      const recommendations = (rows || []) as ListingRecommendation[];
+      await attachReputation(recommendations.map((r) => r.user));
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              listing: { id: listing.id, type: listing.type, title: listing.title },
+              recommendations: recommendations.map((r) => {
+                const { user: poster, score, skill_score, rate_score, location_score, recency_score, matched_skills, ...match } = r;
+                return { listing: match, user: poster, score, reasons: explainRecommendation(r) };
+              }),
+              total: recommendations.length,
+              message: recommendations.length === 0 ? 'No matching listings yet. Try adding skills or widening your rate range.' : undefined,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to get recommendations: ${error}` }) }],
+      };
+    }
+  }
+);
+
+// Human-readable reasons for each component of a recommendation score
+function explainRecommendation(r: ListingRecommendation): string[] {
+  const reasons: string[] = [];
+
+  if (r.matched_skills.length > 0) {
+    reasons.push(`Shared skills: ${r.matched_skills.join(', ')}`);
+  }
+
+  if (r.rate_score === 1) {
+    reasons.push('Rate ranges overlap');
+  } else if (r.rate_score > 0.5) {
+    reasons.push('Rate is close to your range');
+  } else if (r.rate_score < 0.5) {
+    reasons.push('Rate is far from your range');
+  }
+
+  if (r.location_score === 1) {
+    reasons.push(r.remote ? 'Remote on both sides' : `Same location (${r.location})`);
+  } else if (r.remote) {
+    reasons.push('Open to remote');
+  }
+
+  const ageDays = Math.floor((Date.now() - new Date(r.created_at).getTime()) / (1000 * 60 * 60 * 24));
+  reasons.push(ageDays === 0 ? 'Posted today' : `Posted ${ageDays} day${ageDays === 1 ? '' : 's'} ago`);
+
+  return reasons;
+}
+
+// ============================================
+// TOOL: renew_listing
+// ============================================
+server.tool(
+  'renew_listing',
+  'Renew a listing for another 30 days',
+  {
+    listing_id: z.string().describe('ID of the listing to renew'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const db = getSupabase();
+
+      // Calculate new expiration (30 days from now)
+      const newExpiration = new Date();
+      newExpiration.setDate(newExpiration.getDate() + 30);
+
+      const { data, error } = await db
+        .from('listings')
+        .update({
+          expires_at: newExpiration.toISOString(),
+          active: true, // Re-activate if it was expired
+        })
+        .eq('id', params.listing_id)
+        .eq('user_id', user.id)
+        .select(LISTING_FIELDS)
+        .single();
 
       if (error) throw error;
 
@@ -755,46 +1147,676 @@ server.tool(
       };
     } catch (error) {
       return {
-        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to renew listing: ${error}` }) }],
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to renew listing: ${error}` }) }],
+      };
+    }
+  }
+);
+
+// ============================================
+// TOOL: deactivate_listing
+// ============================================
+server.tool(
+  'deactivate_listing',
+  'Deactivate/remove one of your listings',
+  {
+    listing_id: z.string().describe('ID of the listing to deactivate'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const db = getSupabase();
+
+      const { error } = await db
+        .from('listings')
+        .update({ active: false })
+        .eq('id', params.listing_id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Listing deactivated' }) }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to deactivate: ${error}` }) }],
+      };
+    }
+  }
+);
+
+// ============================================
+// TOOL: update_listing
+// ============================================
+server.tool(
+  'update_listing',
+  'Edit one of your listings in place (keeps its ID and conversations). Previous versions are kept as revisions',
+  {
+    listing_id: z.string().describe('ID of the listing to update'),
+    title: z.string().optional().describe('New title'),
+    description: z.string().optional().describe('New description'),
+    skills: z.array(z.string()).optional().describe('New skills list (replaces the existing one)'),
+    rate_min: z.number().nullable().optional().describe('New minimum rate (null to clear)'),
+    rate_max: z.number().nullable().optional().describe('New maximum rate (null to clear)'),
+    rate_type: z.enum(['hourly', 'fixed', 'negotiable']).nullable().optional().describe('New rate structure (null to clear)'),
+    currency: z.string().optional().describe('New currency of the rate (3-letter code)'),
+    estimated_hours: z
+      .number()
+      .int()
+      .positive()
+      .nullable()
+      .optional()
+      .describe('New estimated hours for fixed-price work (null to clear)'),
+    remote: z.boolean().optional().describe('Whether remote work is accepted'),
+    location: z.string().nullable().optional().describe('New location (null to clear)'),
+    timezone: z.string().nullable().optional().describe('New IANA timezone, e.g. "America/New_York" (null to clear)'),
+    timezone_window_hours: z
+      .number()
+      .min(0)
+      .max(12)
+      .nullable()
+      .optional()
+      .describe('Only match counterparts within this many hours of your timezone (null to clear)'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    const { listing_id, ...fields } = params;
+    const changes = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+
+    if (Object.keys(changes).length === 0) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: 'No fields to update' }) }],
+      };
+    }
+
+    try {
+      const db = getSupabase();
+
+      // Check the range the edit leaves behind, taking a side that isn't
+      // being changed from the stored listing
+      if (changes.rate_min !== undefined || changes.rate_max !== undefined) {
+        let { rate_min: rateMin, rate_max: rateMax } = params;
+        if (rateMin === undefined || rateMax === undefined) {
+          const { data: stored, error: storedError } = await db
+            .from('listings')
+            .select('rate_min, rate_max')
+            .eq('id', listing_id)
+            .eq('user_id', user.id)
+            .single();
+          if (storedError) throw storedError;
+          rateMin = rateMin === undefined ? stored.rate_min : rateMin;
+          rateMax = rateMax === undefined ? stored.rate_max : rateMax;
+        }
+        if (rateMin != null && rateMax != null && rateMin > rateMax) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ error: `rate_min (${rateMin}) can't be greater than rate_max (${rateMax})` }),
+              },
+            ],
+          };
+        }
+      }
+
+      if (changes.skills) {
+        changes.skills = await normalizeSkills(changes.skills as string[]);
+      }
+      if (changes.currency) {
+        changes.currency = normalizeCurrency(changes.currency as string);
+      }
+      if (changes.timezone) {
+        changes.timezone = normalizeTimezone(changes.timezone as string);
+      }
+      // Re-geocode a changed location; its timezone applies unless one was given
+      if (changes.location !== undefined) {
+        const { timezone, ...place } = locationColumns(changes.location as string | null);
+        Object.assign(changes, place);
+        if (timezone && changes.timezone === undefined) {
+          changes.timezone = timezone;
+        }
+      }
+
+      // Revisions are recorded and numbered by the on_listing_update_record_revision trigger
+      const { data, error } = await db
+        .from('listings')
+        .update(changes)
+        .eq('id', listing_id)
+        .eq('user_id', user.id)
+        .select(LISTING_FIELDS)
+        .single();
+
+      if (error) {
+        // FK to exchange_rates
+        if (error.code === '23503') {
+          throw new Error(`Unsupported currency "${changes.currency}"`);
+        }
+        throw error;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'Listing updated!',
+              updated_fields: Object.keys(changes),
+              listing: data,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to update listing: ${error}` }) }],
+      };
+    }
+  }
+);
+
+// ============================================
+// TOOL: get_listing_revisions
+// ============================================
+server.tool(
+  'get_listing_revisions',
+  'See how a listing has changed since it was posted (previous versions, newest first)',
+  {
+    listing_id: z.string().describe('ID of the listing'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const db = getSupabase();
+
+      const { data: revisions, error } = await db
+        .from('listing_revisions')
+        .select('*')
+        .eq('listing_id', params.listing_id)
+        .order('revision', { ascending: false });
+
+      if (error) throw error;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              listing_id: params.listing_id,
+              revisions: (revisions || []) as ListingRevision[],
+              count: revisions?.length || 0,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to get listing revisions: ${error}` }) }],
+      };
+    }
+  }
+);
+
+// ============================================
+// TOOL: submit_proposal
+// ============================================
+server.tool(
+  'submit_proposal',
+  'Submit a proposal (application) for a listing, with your terms',
+  {
+    listing_id: z.string().describe('ID of the listing to propose on'),
+    cover_note: z.string().describe('Why you are a good fit / what you are offering'),
+    proposed_rate: z.number().optional().describe('Optional: proposed rate in USD'),
+    rate_type: z.enum(['hourly', 'fixed', 'negotiable']).optional().describe('Optional: how the proposed rate is structured'),
+    available_from: z.string().optional().describe('Optional: date you can start (YYYY-MM-DD)'),
+    estimated_duration: z.string().optional().describe('Optional: estimated duration (e.g., "3 weeks", "ongoing")'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const db = getSupabase();
+
+      const { data, error } = await db
+        .from('proposals')
+        .insert({
+          listing_id: params.listing_id,
+          applicant_id: user.id,
+          cover_note: params.cover_note,
+          proposed_rate: params.proposed_rate,
+          rate_type: params.rate_type,
+          available_from: params.available_from,
+          estimated_duration: params.estimated_duration,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ error: 'You already submitted a proposal for this listing' }) }],
+          };
+        }
+        // RLS rejects inactive or own listings, and proposals between blocked users
+        if (error.code === '42501') {
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ error: 'Proposal not sent: this listing is not open to proposals from you' }) }],
+          };
+        }
+        throw error;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'Proposal submitted! The listing owner has been notified.',
+              proposal: data,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to submit proposal: ${error}` }) }],
+      };
+    }
+  }
+);
+
+// ============================================
+// TOOL: list_proposals
+// ============================================
+server.tool(
+  'list_proposals',
+  'List proposals received on your listings, or proposals you have sent',
+  {
+    role: z
+      .enum(['received', 'sent'])
+      .default('received')
+      .describe('"received" for proposals on your listings, "sent" for your own proposals'),
+    listing_id: z.string().optional().describe('Optional: only proposals for this listing'),
+    status: z.enum(['pending', 'accepted', 'declined']).optional().describe('Optional: filter by status'),
+    ...pageParams,
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const db = getSupabase();
+
+      // Received: inner join on the user's own listings (readable to them
+      // even when inactive). Sent: keep proposals whose listing has since
+      // been deactivated, with listing null.
+      const listingEmbed = params.role === 'received' ? 'listings!inner' : 'listings';
+      let query = db.from('proposals').select(`
+        *,
+        listing:${listingEmbed} (id, title, type, user_id),
+        applicant:users (id, name, headline, linkedin_url)
+      `);
+
+      query = params.role === 'received' ? query.eq('listing.user_id', user.id) : query.eq('applicant_id', user.id);
+
+      if (params.listing_id) {
+        query = query.eq('listing_id', params.listing_id);
+      }
+
+      if (params.status) {
+        query = query.eq('status', params.status);
+      }
+
+      if (params.cursor) {
+        query = query.or(keysetFilter(['created_at', 'id'], decodeCursor(params.cursor, 2), 'desc'));
+      }
+
+      const { data: rows, error } = await query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(params.limit + 1);
+
+      if (error) throw error;
+
+      const { rows: proposals, next_cursor } = paginate((rows || []) as Proposal[], params.limit, (p) => [
+        p.created_at,
+        p.id,
+      ]);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              proposals,
+              count: proposals.length,
+              next_cursor,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to list proposals: ${error}` }) }],
+      };
+    }
+  }
+);
+
+// ============================================
+// TOOL: accept_proposal
+// ============================================
+server.tool(
+  'accept_proposal',
+  'Accept a proposal on one of your listings. Opens a conversation with the applicant',
+  {
+    proposal_id: z.string().describe('ID of the proposal to accept'),
+    message: z.string().optional().describe('Optional: first message to send the applicant'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const db = getSupabase();
+
+      const proposal = await getPendingProposalForOwner(params.proposal_id, user.id);
+      if ('error' in proposal) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ error: proposal.error }) }],
+        };
+      }
+
+      // Accepts, opens the listing's thread and kicks it off (so both sides
+      // see it in get_conversations) atomically: a rate-limited or blocked
+      // message leaves the proposal pending and no conversation behind
+      const { data, error } = await db
+        .rpc('accept_proposal', {
+          target_proposal_id: params.proposal_id,
+          first_message: params.message || `I've accepted your proposal for "${proposal.listing.title}". Let's talk details!`,
+          note: params.message,
+        })
+        .single();
+
+      if (error) throw error;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'Proposal accepted! A conversation with the applicant has been opened.',
+              conversation_id: (data as Proposal).conversation_id,
+              proposal: data,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      const limited = rateLimitResult(error);
+      if (limited) return limited;
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to accept proposal: ${error}` }) }],
+      };
+    }
+  }
+);
+
+// ============================================
+// TOOL: decline_proposal
+// ============================================
+server.tool(
+  'decline_proposal',
+  'Decline a proposal on one of your listings',
+  {
+    proposal_id: z.string().describe('ID of the proposal to decline'),
+    reason: z.string().optional().describe('Optional: short reason shared with the applicant'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const db = getSupabase();
+
+      const proposal = await getPendingProposalForOwner(params.proposal_id, user.id);
+      if ('error' in proposal) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ error: proposal.error }) }],
+        };
+      }
+
+      const { data, error } = await db
+        .from('proposals')
+        .update({ status: 'declined', decision_note: params.reason })
+        .eq('id', params.proposal_id)
+        .eq('status', 'pending')
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'Proposal declined. The applicant has been notified.',
+              proposal: data,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to decline proposal: ${error}` }) }],
+      };
+    }
+  }
+);
+
+// Load a proposal the user can decide on, or explain why they can't
+async function getPendingProposalForOwner(
+  proposalId: string,
+  userId: string
+): Promise<(Proposal & { listing: Pick<Listing, 'id' | 'title' | 'user_id'> }) | { error: string }> {
+  const db = getSupabase();
+
+  const { data: proposal, error } = await db
+    .from('proposals')
+    .select('*, listing:listings (id, title, user_id)')
+    .eq('id', proposalId)
+    .single();
+
+  if (error || !proposal) {
+    return { error: 'Proposal not found' };
+  }
+
+  if (proposal.listing?.user_id !== userId) {
+    return { error: 'Only the listing owner can accept or decline this proposal' };
+  }
+
+  if (proposal.status !== 'pending') {
+    return { error: `Proposal has already been ${proposal.status}` };
+  }
+
+  return proposal;
+}
+
+// ============================================
+// TOOL: leave_review
+// ============================================
+server.tool(
+  'leave_review',
+  'Rate and review someone you have worked with: an accepted proposal, or a conversation you both wrote in (one review per side per engagement)',
+  {
+    conversation_id: z.string().describe('ID of the conversation (engagement) being reviewed'),
+    rating: z.number().int().min(1).max(5).describe('Rating from 1 (poor) to 5 (excellent)'),
+    comment: z.string().optional().describe('Optional: written review'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      const db = getSupabase();
+
+      const { data: conversation, error: convError } = await db
+        .from('conversations')
+        .select('id, participant_ids')
+        .eq('id', params.conversation_id)
+        .single();
+
+      if (convError || !conversation) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ error: 'Conversation not found' }) }],
+        };
+      }
+
+      const revieweeId = conversation.participant_ids.find((id: string) => id !== user.id);
+
+      const { data, error } = await db
+        .from('reviews')
+        .insert({
+          conversation_id: conversation.id,
+          reviewer_id: user.id,
+          reviewee_id: revieweeId,
+          rating: params.rating,
+          comment: params.comment,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ error: 'You already reviewed this engagement' }) }],
+          };
+        }
+        // RLS: no accepted proposal, and not both sides wrote in the thread
+        if (error.code === '42501') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  error: 'You can only review someone after an accepted proposal or once you have both written in the conversation',
+                }),
+              },
+            ],
+          };
+        }
+        throw error;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'Review submitted!',
+              review: data,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to leave review: ${error}` }) }],
       };
     }
   }
 );
 
 // ============================================
-// TOOL: deactivate_listing
+// TOOL: get_user_reviews
 // ============================================
 server.tool(
-  'deactivate_listing',
-  'Deactivate/remove one of your listings',
+  'get_user_reviews',
+  'Get reviews and the aggregated rating for a user',
   {
-    listing_id: z.string().describe('ID of the listing to deactivate'),
+    user_id: z.string().optional().describe('User ID to look up (defaults to yourself)'),
+    ...pageParams,
   },
   async (params) => {
     const user = await getCurrentUser();
     if (!user) {
-      return {
-        content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated' }) }],
-      };
+      return notAuthenticatedResult();
     }
 
     try {
       const db = getSupabase();
+      const userId = params.user_id || user.id;
 
-      const { error } = await db
-        .from('listings')
-        .update({ active: false })
-        .eq('id', params.listing_id)
-        .eq('user_id', user.id);
+      let query = db
+        .from('reviews')
+        .select('*, reviewer:users!reviews_reviewer_id_fkey (id, name, headline)')
+        .eq('reviewee_id', userId);
+
+      if (params.cursor) {
+        query = query.or(keysetFilter(['created_at', 'id'], decodeCursor(params.cursor, 2), 'desc'));
+      }
+
+      const { data: rows, error } = await query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(params.limit + 1);
 
       if (error) throw error;
 
+      const { rows: reviews, next_cursor } = paginate((rows || []) as Review[], params.limit, (r) => [
+        r.created_at,
+        r.id,
+      ]);
+
+      const subject: Pick<User, 'id' | 'reputation'> = { id: userId };
+      await attachReputation([subject]);
+
       return {
-        content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Listing deactivated' }) }],
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              user_id: userId,
+              reputation: subject.reputation,
+              reviews,
+              next_cursor,
+            }),
+          },
+        ],
       };
     } catch (error) {
       return {
-        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to deactivate: ${error}` }) }],
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to get reviews: ${error}` }) }],
       };
     }
   }
@@ -811,39 +1833,86 @@ server.tool(
     search_type: z.enum(['jobs', 'talent']).describe('Type of search'),
     query: z.string().optional().describe('Search query'),
     skills_filter: z.array(z.string()).optional().describe('Skills to filter by'),
-    rate_min: z.number().optional().describe('Minimum rate'),
-    rate_max: z.number().optional().describe('Maximum rate'),
+    rate_min: z.number().optional().describe('Minimum hourly rate (fixed-price listings are compared by their hourly equivalent)'),
+    rate_max: z.number().optional().describe('Maximum hourly rate'),
+    currency: z.string().optional().default('USD').describe('Currency of rate_min/rate_max (3-letter code)'),
+    include_negotiable: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe('When filtering by rate, also match listings without a comparable rate (negotiable, or fixed price with no hours estimate)'),
     remote_only: z.boolean().optional().describe('Only remote positions'),
-    location: z.string().optional().describe('Location filter'),
+    location: z.string().optional().describe('Place filter (city, state/province or country, e.g. "NYC", "Germany")'),
+    near: z.string().optional().describe('Only listings within radius_km of this city (instead of location)'),
+    radius_km: z.number().positive().optional().default(50).describe('Radius for "near", in kilometres'),
+    timezone: z
+      .string()
+      .optional()
+      .describe('Only listings whose timezone overlaps this IANA timezone (defaults to your profile timezone when timezone_window_hours is set)'),
+    timezone_window_hours: z
+      .number()
+      .min(0)
+      .max(12)
+      .optional()
+      .describe('Maximum hours between your timezone and the listing\'s (default 3 when filtering by timezone)'),
     notify_email: z.boolean().default(true).describe('Receive email notifications for new matches'),
   },
   async (params) => {
     const user = await getCurrentUser();
     if (!user) {
-      return {
-        content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated' }) }],
-      };
+      return notAuthenticatedResult();
     }
 
     try {
       const db = getSupabase();
 
+      if (params.near && params.location) {
+        throw new Error('Use either location or near, not both');
+      }
+      const place = params.near ?? params.location;
+      const geo = place ? geocode(place) : null;
+      if (params.near && geo?.latitude === undefined) {
+        throw new Error(`Unknown city "${params.near}". Use location to filter by state or country`);
+      }
+
+      const filterByTimezone = params.timezone !== undefined || params.timezone_window_hours !== undefined;
+      const timezone = params.timezone ? normalizeTimezone(params.timezone) : user.timezone;
+      if (filterByTimezone && !timezone) {
+        throw new Error('No timezone to compare with. Pass timezone or set one on your profile');
+      }
+
       const savedSearch = {
         user_id: user.id,
         name: params.name,
         search_type: params.search_type,
         query: params.query,
-        skills_filter: params.skills_filter?.map((s) => s.toLowerCase()) || [],
+        skills_filter: await normalizeSkills(params.skills_filter || []),
         rate_min: params.rate_min,
         rate_max: params.rate_max,
+        currency: normalizeCurrency(params.currency),
+        include_negotiable: params.include_negotiable,
         remote_only: params.remote_only || false,
-        location: params.location,
+        location: place,
+        city: geo?.city,
+        region: geo?.region,
+        country: geo?.country,
+        latitude: geo?.latitude,
+        longitude: geo?.longitude,
+        radius_km: params.near ? params.radius_km : undefined,
+        timezone: filterByTimezone ? timezone : undefined,
+        timezone_window_hours: filterByTimezone ? (params.timezone_window_hours ?? 3) : undefined,
         notify_email: params.notify_email,
         active: true,
       };
 
-      const { data, error } = await db.from('saved_searches').insert(savedSearch).select().single();
-      if (error) throw error;
+      const { data, error } = await db.from('saved_searches').insert(savedSearch).select(SAVED_SEARCH_FIELDS).single();
+      if (error) {
+        // FK to exchange_rates
+        if (error.code === '23503') {
+          throw new Error(`Unsupported currency "${savedSearch.currency}"`);
+        }
+        throw error;
+      }
 
       return {
         content: [
@@ -871,30 +1940,19 @@ server.tool(
 server.tool('get_saved_searches', 'Get all your saved searches', {}, async () => {
   const user = await getCurrentUser();
   if (!user) {
-    return {
-      content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated' }) }],
-    };
+    return notAuthenticatedResult();
   }
 
   try {
-    const db = getSupabase();
-
-    const { data: searches, error } = await db
-      .from('saved_searches')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('active', true)
-      .order('created_at', { ascending: false });
-
-    if (error) throw error;
+    const searches = await getSavedSearches(user);
 
     return {
       content: [
         {
           type: 'text',
           text: JSON.stringify({
-            saved_searches: searches || [],
-            count: searches?.length || 0,
+            saved_searches: searches,
+            count: searches.length,
           }),
         },
       ],
@@ -918,9 +1976,7 @@ server.tool(
   async (params) => {
     const user = await getCurrentUser();
     if (!user) {
-      return {
-        content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated' }) }],
-      };
+      return notAuthenticatedResult();
     }
 
     try {
@@ -953,88 +2009,32 @@ server.tool(
   'Run a saved search and get current matches',
   {
     search_id: z.string().describe('ID of the saved search to run'),
+    ...pageParams,
   },
   async (params) => {
     const user = await getCurrentUser();
     if (!user) {
-      return {
-        content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated' }) }],
-      };
+      return notAuthenticatedResult();
     }
 
     try {
-      const db = getSupabase();
-
-      // Get the saved search
-      const { data: savedSearch, error: searchError } = await db
-        .from('saved_searches')
-        .select('*')
-        .eq('id', params.search_id)
-        .eq('user_id', user.id)
-        .single();
-
-      if (searchError || !savedSearch) {
+      const run = await runSavedSearch(user, params.search_id, params);
+      if (!run) {
         return {
           content: [{ type: 'text', text: JSON.stringify({ error: 'Saved search not found' }) }],
         };
       }
 
-      // Run the search with saved criteria
-      const listingType = savedSearch.search_type === 'jobs' ? 'job' : 'available';
-
-      let query = db
-        .from('listings')
-        .select(`*, user:users (id, name, headline, linkedin_url)`)
-        .eq('type', listingType)
-        .eq('active', true)
-        .neq('user_id', user.id)
-        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
-
-      if (savedSearch.remote_only) {
-        query = query.eq('remote', true);
-      }
-
-      if (savedSearch.rate_min) {
-        query = query.gte('rate_max', savedSearch.rate_min);
-      }
-
-      if (savedSearch.rate_max) {
-        query = query.lte('rate_min', savedSearch.rate_max);
-      }
-
-      if (savedSearch.skills_filter && savedSearch.skills_filter.length > 0) {
-        query = query.overlaps('skills', savedSearch.skills_filter);
-      }
-
-      if (savedSearch.location) {
-        query = query.ilike('location', `%${savedSearch.location}%`);
-      }
-
-      const { data: listings, error: listingsError } = await query
-        .order('created_at', { ascending: false })
-        .limit(20);
-
-      if (listingsError) throw listingsError;
-
-      // Update last_checked_at
-      await db
-        .from('saved_searches')
-        .update({ last_checked_at: new Date().toISOString() })
-        .eq('id', params.search_id);
-
-      // Score results if there's a query
-      const results = savedSearch.query
-        ? scoreListings(listings || [], savedSearch.query)
-        : (listings || []).map((l: any) => ({ listing: l, user: l.user, relevance_hints: [] }));
-
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
-              saved_search_name: savedSearch.name,
-              results,
-              total: results.length,
+              saved_search_name: run.saved_search.name,
+              results: run.results,
+              semantic: run.semantic,
+              total: run.results.length,
+              next_cursor: run.next_cursor,
             }),
           },
         ],
@@ -1053,36 +2053,42 @@ server.tool(
 server.tool(
   'get_notifications',
   'Get recent notifications (messages, contact shares, etc.)',
-  {
-    limit: z.number().optional().default(20).describe('Maximum number of notifications to return'),
-  },
+  pageParams,
   async (params) => {
     const user = await getCurrentUser();
     if (!user) {
-      return {
-        content: [{ type: 'text', text: JSON.stringify({ error: 'Not authenticated' }) }],
-      };
+      return notAuthenticatedResult();
     }
 
     try {
       const db = getSupabase();
 
-      const { data: notifications, error } = await db
+      let query = db
         .from('notifications')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('user_id', user.id);
+
+      if (params.cursor) {
+        query = query.or(keysetFilter(['created_at', 'id'], decodeCursor(params.cursor, 2), 'desc'));
+      }
+
+      const { data: rows, error } = await query
         .order('created_at', { ascending: false })
-        .limit(params.limit || 20);
+        .order('id', { ascending: false })
+        .limit(params.limit + 1);
 
       if (error) throw error;
 
+      const { rows: notifications, next_cursor } = paginate(rows || [], params.limit, (n) => [n.created_at, n.id]);
+
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
-              notifications: notifications || [],
-              count: notifications?.length || 0,
+              notifications,
+              count: notifications.length,
+              next_cursor,
             }),
           },
         ],
@@ -1095,11 +2101,427 @@ server.tool(
   }
 );
 
+// ============================================
+// TOOL: wait_for_activity
+// ============================================
+server.tool(
+  'wait_for_activity',
+  'Wait for new messages and notifications, delivered in realtime. Returns as soon as something arrives, or an empty list after the timeout',
+  {
+    timeout_seconds: z.number().min(0).max(300).optional().default(60).describe('How long to wait (seconds, max 300)'),
+    after: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe('Cursor from a previous call, to re-read from that point. Omit to get activity not returned yet'),
+  },
+  async (params) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      return notAuthenticatedResult();
+    }
+
+    try {
+      startActivityStream(user.id);
+      const activity = await waitForActivity(params.after, params.timeout_seconds * 1000);
+      const state = activityStreamState();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              activity,
+              count: activity.length,
+              timed_out: activity.length === 0,
+              cursor: state?.cursor,
+              stream_status: state?.status,
+              last_error: state?.last_error,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: `Failed to wait for activity: ${error}` }) }],
+      };
+    }
+  }
+);
+
+// ============================================
+// Resources
+// ============================================
+// Read-only JSON views of marketplace data, so clients can attach a listing,
+// conversation or profile to the context without a tool call. Reads go
+// through the user's session, so RLS applies as it does for tools.
+
+const PUBLIC_USER_FIELDS = 'id, name, headline, linkedin_url, bio, timezone, portfolio_links, skills, created_at';
+// Messages included when reading a conversation (newest, oldest first)
+const CONVERSATION_MESSAGE_LIMIT = 50;
+
+async function requireUser(): Promise<User> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error(isSessionRevoked() ? sessionRevokedMessage() : `Not authenticated. Run: ${authCommand()}`);
+  }
+  return user;
+}
+
+function jsonContents(uri: string, data: unknown) {
+  return {
+    contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+async function readListing(listingId: string) {
+  const db = getSupabase();
+  const { data: listing, error } = await db
+    .from('listings')
+    .select(`${LISTING_FIELDS}, user:users (id, name, headline, linkedin_url)`)
+    .eq('id', listingId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!listing) throw new Error(`Listing ${listingId} not found`);
+
+  const result = listing as unknown as Listing & { user: User };
+  await attachReputation([result.user]);
+  return result;
+}
+
+async function readUserProfile(userId: string) {
+  const db = getSupabase();
+  const [{ data: profile, error }, { data: listings }] = await Promise.all([
+    db.from('users').select(PUBLIC_USER_FIELDS).eq('id', userId).maybeSingle(),
+    db
+      .from('listings')
+      .select('id, type, title, skills, rate_min, rate_max, rate_type, currency, remote, location, created_at')
+      .eq('user_id', userId)
+      .eq('active', true)
+      .order('created_at', { ascending: false }),
+  ]);
+
+  if (error) throw error;
+  if (!profile) throw new Error(`User ${userId} not found`);
+
+  const subject = profile as unknown as User;
+  await attachReputation([subject]);
+  return { ...subject, active_listings: listings || [] };
+}
+
+async function readNotifications(user: User, limit: number) {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('notifications')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Does not mark messages as read; use get_messages for that
+async function readConversation(user: User, conversationId: string) {
+  const db = getSupabase();
+  const { data: conversation, error } = await db
+    .from('conversations')
+    .select('*, listing:listings (id, title, type)')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!conversation) throw new Error(`Conversation ${conversationId} not found`);
+
+  const otherUserId = (conversation.participant_ids as string[]).find((id) => id !== user.id);
+  const [{ data: otherUser }, { data: messages, error: messagesError }] = await Promise.all([
+    db.from('users').select('id, name, headline').eq('id', otherUserId).maybeSingle(),
+    db
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(CONVERSATION_MESSAGE_LIMIT),
+  ]);
+  if (messagesError) throw messagesError;
+
+  return {
+    id: conversation.id,
+    other_user: otherUser || { id: otherUserId, name: 'Unknown' },
+    listing: conversation.listing || null,
+    last_message_at: conversation.last_message_at,
+    messages: ((messages || []) as Message[]).reverse().map((msg) => ({
+      id: msg.id,
+      content: msg.content,
+      sent_by_me: msg.sender_id === user.id,
+      timestamp: msg.created_at,
+      read: msg.read,
+    })),
+  };
+}
+
+// Most recent conversations, for resource listing and inbox triage
+async function recentConversations(user: User, limit: number) {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('conversations')
+    .select('id, participant_ids, last_message_at, listing:listings (title), unread:messages (count)')
+    .contains('participant_ids', [user.id])
+    .eq('unread.read', false)
+    .neq('unread.sender_id', user.id)
+    .order('last_message_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  const otherUserIds = (data || []).flatMap((c) => c.participant_ids.filter((id: string) => id !== user.id));
+  const { data: users } = await db.from('users').select('id, name').in('id', otherUserIds);
+  const names = new Map((users || []).map((u) => [u.id, u.name as string]));
+
+  return (data || []).map((c) => {
+    const otherUserId = c.participant_ids.find((id: string) => id !== user.id);
+    const listing = c.listing as unknown as { title: string } | null;
+    return {
+      id: c.id as string,
+      other_user_name: names.get(otherUserId) || 'Unknown',
+      listing_title: listing?.title ?? null,
+      last_message_at: c.last_message_at as string,
+      unread_count: c.unread?.[0]?.count ?? 0,
+    };
+  });
+}
+
+server.registerResource(
+  'my_listings',
+  'opengig://me/listings',
+  { description: 'Your active listings', mimeType: 'application/json' },
+  async (uri) => {
+    const user = await requireUser();
+    return jsonContents(uri.href, await getMyListings(user));
+  }
+);
+
+server.registerResource(
+  'my_notifications',
+  'opengig://me/notifications',
+  { description: 'Your 50 most recent notifications', mimeType: 'application/json' },
+  async (uri) => {
+    const user = await requireUser();
+    return jsonContents(uri.href, await readNotifications(user, 50));
+  }
+);
+
+server.registerResource(
+  'listing',
+  new ResourceTemplate('opengig://listing/{id}', {
+    // Your own listings; any other listing can be read by ID
+    list: async () => {
+      const user = await requireUser();
+      const listings = await getMyListings(user);
+      return {
+        resources: listings.map((l) => ({
+          uri: `opengig://listing/${l.id}`,
+          name: l.title,
+          description: `${l.type === 'job' ? 'Job' : 'Availability'} listing`,
+          mimeType: 'application/json',
+        })),
+      };
+    },
+  }),
+  { description: 'A listing with its poster and their reputation', mimeType: 'application/json' },
+  async (uri, { id }) => {
+    await requireUser();
+    return jsonContents(uri.href, await readListing(String(id)));
+  }
+);
+
+server.registerResource(
+  'conversation',
+  new ResourceTemplate('opengig://conversation/{id}', {
+    list: async () => {
+      const user = await requireUser();
+      const conversations = await recentConversations(user, 50);
+      return {
+        resources: conversations.map((c) => ({
+          uri: `opengig://conversation/${c.id}`,
+          name: c.listing_title ? `${c.other_user_name}: ${c.listing_title}` : c.other_user_name,
+          description: c.unread_count > 0 ? `${c.unread_count} unread` : undefined,
+          mimeType: 'application/json',
+        })),
+      };
+    },
+  }),
+  {
+    description: `A conversation with its latest ${CONVERSATION_MESSAGE_LIMIT} messages (does not mark them read)`,
+    mimeType: 'application/json',
+  },
+  async (uri, { id }) => {
+    const user = await requireUser();
+    return jsonContents(uri.href, await readConversation(user, String(id)));
+  }
+);
+
+server.registerResource(
+  'user',
+  new ResourceTemplate('opengig://user/{id}', { list: undefined }),
+  { description: 'A public profile with reputation and active listings', mimeType: 'application/json' },
+  async (uri, { id }) => {
+    await requireUser();
+    return jsonContents(uri.href, await readUserProfile(String(id)));
+  }
+);
+
+// ============================================
+// Prompts
+// ============================================
+// Reusable workflows that embed the resources above, then hand off to tools.
+
+function embeddedResource(uri: string, data: unknown) {
+  return {
+    role: 'user' as const,
+    content: {
+      type: 'resource' as const,
+      resource: { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) },
+    },
+  };
+}
+
+function promptText(text: string) {
+  return { role: 'user' as const, content: { type: 'text' as const, text } };
+}
+
+server.registerPrompt(
+  'draft_job_post',
+  {
+    title: 'Draft a job post',
+    description: 'Turn a rough description of what you need into a job listing, then post it',
+    argsSchema: {
+      need: z.string().describe('What you need done, in your own words'),
+      budget: z.string().optional().describe('Budget or rate, e.g. "$80-100/hr" or "5000 EUR fixed"'),
+    },
+  },
+  async ({ need, budget }) => {
+    const user = await requireUser();
+    const myListings = await getMyListings(user);
+
+    return {
+      messages: [
+        embeddedResource('opengig://me/listings', myListings),
+        promptText(
+          [
+            'Draft an opengig job post for this need:',
+            need,
+            budget ? `Budget: ${budget}` : 'No budget given; ask me for one or suggest a range.',
+            '',
+            'Write a clear title, a description (scope, deliverables, timeline, what a great candidate looks like) and a short list of skills (use suggest_skills to match the catalog).',
+            'Fill in rate_min, rate_max, rate_type and currency for create_listing; for fixed-price work include estimated_hours.',
+            'My active listings are attached: point out if this duplicates one of them (update_listing may be better).',
+            'Show me the draft and only call create_listing after I approve it.',
+          ].join('\n')
+        ),
+      ],
+    };
+  }
+);
+
+server.registerPrompt(
+  'outreach_message',
+  {
+    title: 'Write an outreach message',
+    description: 'Write a first message to the poster of a listing, tailored to it and to your profile',
+    argsSchema: {
+      listing_id: z.string().describe('ID of the listing to respond to'),
+      tone: z.string().optional().describe('Optional: tone, e.g. "brief and direct"'),
+    },
+  },
+  async ({ listing_id, tone }) => {
+    const user = await requireUser();
+    const listing = await readListing(listing_id);
+    const [poster, me] = await Promise.all([readUserProfile(listing.user_id), readUserProfile(user.id)]);
+
+    return {
+      messages: [
+        embeddedResource(`opengig://listing/${listing.id}`, listing),
+        embeddedResource(`opengig://user/${poster.id}`, poster),
+        embeddedResource(`opengig://user/${me.id}`, me),
+        promptText(
+          [
+            `Write an outreach message from me (${me.name}) to ${poster.name} about their listing "${listing.title}".`,
+            listing.type === 'job'
+              ? 'I want to be hired: connect my skills, experience and listings to what they need.'
+              : 'I want to hire them: explain the work and why their profile fits.',
+            'Be specific to the listing, keep it under 150 words, and end with a concrete next step.',
+            tone ? `Tone: ${tone}.` : '',
+            `Show me the draft and only call send_message (recipient_id ${poster.id}, listing_id ${listing.id}) after I approve it.`,
+          ]
+            .filter(Boolean)
+            .join('\n')
+        ),
+      ],
+    };
+  }
+);
+
+// Conversations embedded by triage_inbox
+const TRIAGE_CONVERSATION_LIMIT = 10;
+
+server.registerPrompt(
+  'triage_inbox',
+  {
+    title: 'Triage my inbox',
+    description: 'Summarize unread conversations and notifications, prioritize them and suggest replies',
+  },
+  async () => {
+    const user = await requireUser();
+
+    const unread = (await recentConversations(user, 50))
+      .filter((c) => c.unread_count > 0)
+      .slice(0, TRIAGE_CONVERSATION_LIMIT);
+    const [conversations, notifications] = await Promise.all([
+      Promise.all(unread.map((c) => readConversation(user, c.id))),
+      readNotifications(user, 20),
+    ]);
+
+    if (conversations.length === 0 && notifications.length === 0) {
+      return {
+        messages: [promptText('Tell me my opengig inbox is clear: no unread messages or notifications.')],
+      };
+    }
+
+    return {
+      messages: [
+        ...conversations.map((c) => embeddedResource(`opengig://conversation/${c.id}`, c)),
+        embeddedResource('opengig://me/notifications', notifications),
+        promptText(
+          [
+            'Triage my opengig inbox using the attached conversations (with unread messages) and recent notifications.',
+            'Group items as: needs a reply now, can wait, and no action needed (including likely spam).',
+            'For each item needing a reply, summarize it in one line and draft a short reply.',
+            'Do not send anything or mark messages read until I confirm; then use send_message and get_messages.',
+          ].join('\n')
+        ),
+      ],
+    };
+  }
+);
+
 // Start the server
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('opengig MCP server running');
+
+  // Buffer activity from startup so wait_for_activity doesn't miss anything
+  // between calls; closing the realtime socket lets the process exit
+  process.stdin.on('close', () => void stopActivityStream());
+  const user = await getCurrentUser();
+  if (user) {
+    startActivityStream(user.id);
+  }
 }
 
 main().catch(console.error);
@@ -10,13 +10,36 @@ export interface User {
   email?: string;
   email_verified?: boolean;
   phone?: string;
+  bio?: string;
+  timezone?: string;
+  portfolio_links?: string[];
+  skills?: string[];
   linkedin_account_age_years?: number;
   connection_count?: number;
   created_at: string;
   last_active: string;
+  // Aggregated from reviews, not a users column
+  reputation?: Pick<UserReputation, 'rating_avg' | 'review_count'>;
 }
 
-export interface Listing {
+export interface UserReputation {
+  user_id: string;
+  rating_avg: number | null;
+  review_count: number;
+}
+
+// Location geocoded from free text (see lib/geo.ts); country is ISO 3166-1
+// alpha-2, region a state/province code
+export interface StructuredLocation {
+  city?: string;
+  region?: string;
+  country?: string;
+  latitude?: number;
+  longitude?: number;
+  timezone?: string;
+}
+
+export interface Listing extends StructuredLocation {
   id: string;
   user_id: string;
   type: 'job' | 'available';
@@ -26,11 +49,59 @@ export interface Listing {
   rate_min?: number;
   rate_max?: number;
   rate_type?: 'hourly' | 'fixed' | 'negotiable';
+  currency: string;
+  // Estimated hours of work, for fixed-price listings
+  estimated_hours?: number;
+  // Hourly USD equivalent of the rate range; null when not comparable
+  // (negotiable, or fixed price without estimated_hours)
+  hourly_rate_min?: number | null;
+  hourly_rate_max?: number | null;
   location?: string;
+  // Max hours between the poster's timezone and a counterpart's
+  timezone_window_hours?: number;
   remote: boolean;
   created_at: string;
   expires_at?: string;
   active: boolean;
+  // Number of recorded edits (see listing_revisions)
+  revision?: number;
+}
+
+// Counterpart listing scored against one of the user's own listings
+export interface ListingRecommendation extends Listing {
+  user: User;
+  score: number;
+  skill_score: number;
+  rate_score: number;
+  location_score: number;
+  recency_score: number;
+  matched_skills: string[];
+}
+
+export interface SkillSuggestion {
+  name: string;
+  parent?: string;
+  aliases: string[];
+  matched: string;
+}
+
+export interface ListingRevision {
+  id: string;
+  listing_id: string;
+  revision: number;
+  edited_by?: string;
+  changed_fields: string[];
+  title: string;
+  description: string;
+  skills: string[];
+  rate_min?: number;
+  rate_max?: number;
+  rate_type?: 'hourly' | 'fixed' | 'negotiable';
+  currency?: string;
+  estimated_hours?: number;
+  location?: string;
+  remote: boolean;
+  created_at: string;
 }
 
 export interface Message {
@@ -47,10 +118,37 @@ export interface Conversation {
   id: string;
   participant_ids: string[];
   listing_id?: string;
+  created_by?: string;
   created_at: string;
   last_message_at: string;
 }
 
+export interface Proposal {
+  id: string;
+  listing_id: string;
+  applicant_id: string;
+  cover_note: string;
+  proposed_rate?: number;
+  rate_type?: 'hourly' | 'fixed' | 'negotiable';
+  available_from?: string;
+  estimated_duration?: string;
+  status: 'pending' | 'accepted' | 'declined';
+  decision_note?: string;
+  conversation_id?: string;
+  created_at: string;
+  decided_at?: string;
+}
+
+export interface Review {
+  id: string;
+  conversation_id: string;
+  reviewer_id: string;
+  reviewee_id: string;
+  rating: number;
+  comment?: string;
+  created_at: string;
+}
+
 export interface ContactShare {
   id: string;
   sharer_id: string;
@@ -62,6 +160,26 @@ export interface ContactShare {
   created_at: string;
 }
 
+export interface UserBlock {
+  blocker_id: string;
+  blocked_id: string;
+  reason?: string;
+  created_at: string;
+}
+
+export interface Report {
+  id: string;
+  reporter_id: string;
+  reported_user_id?: string;
+  listing_id?: string;
+  conversation_id?: string;
+  category: 'spam' | 'scam' | 'harassment' | 'inappropriate' | 'impersonation' | 'other';
+  details?: string;
+  status: 'open' | 'reviewing' | 'resolved' | 'dismissed';
+  created_at: string;
+  resolved_at?: string;
+}
+
 export interface Match {
   listing: Listing;
   user: User;
@@ -76,7 +194,14 @@ export interface Session {
   expires_at: string;
 }
 
-export interface SavedSearch {
+// Realtime activity surfaced by wait_for_activity; seq increases per event
+export type Activity =
+  | { seq: number; type: 'message'; data: Message }
+  | { seq: number; type: 'notification'; data: Notification };
+
+export type ActivityStreamStatus = 'connecting' | 'live' | 'reconnecting' | 'stopped';
+
+export interface SavedSearch extends StructuredLocation {
   id: string;
   user_id: string;
   name: string;
@@ -87,8 +212,19 @@ export interface SavedSearch {
   rate_max?: number;
   remote_only: boolean;
   location?: string;
+  // Radius around latitude/longitude; without it the location matches by
+  // country/region/city
+  radius_km?: number;
+  // Only listings within this many hours of timezone
+  timezone_window_hours?: number;
+  // Currency of rate_min/rate_max (hourly amounts)
+  currency: string;
+  include_negotiable: boolean;
   notify_email: boolean;
+  // Last manual run (run_saved_search)
   last_checked_at: string;
+  // Background matcher's watermark (022_saved_search_notify_watermark.sql)
+  last_notified_at?: string;
   created_at: string;
   active: boolean;
 }
@@ -96,7 +232,14 @@ export interface SavedSearch {
 export interface Notification {
   id: string;
   user_id: string;
-  type: 'new_match' | 'message_received' | 'listing_expiring' | 'contact_shared';
+  type:
+    | 'new_match'
+    | 'message_received'
+    | 'listing_expiring'
+    | 'contact_shared'
+    | 'proposal_received'
+    | 'proposal_accepted'
+    | 'proposal_declined';
   title: string;
   body: string;
   metadata: Record<string, unknown>;
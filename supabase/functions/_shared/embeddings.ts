@@ -0,0 +1,132 @@
+// Text embedders shared by the embed and ai-match functions
+// All embedders produce EMBEDDING_DIMENSIONS-length, unit-normalized vectors
+// to match the vector(384) columns from 015_listing_embeddings.sql.
+
+export const EMBEDDING_DIMENSIONS = 384;
+
+export interface Embedder {
+  name: string;
+  embed(text: string): Promise<number[]>;
+}
+
+export interface EmbedderConfig {
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+// Supabase edge runtime's built-in inference API
+declare const Supabase: {
+  ai: {
+    Session: new (model: string) => {
+      run(input: string, options: { mean_pool: boolean; normalize: boolean }): Promise<number[]>;
+    };
+  };
+};
+
+// gte-small runs on CPU inside the edge runtime: no API key, no network
+export class GteSmallEmbedder implements Embedder {
+  name = 'gte-small';
+  private session = new Supabase.ai.Session('gte-small');
+
+  async embed(text: string): Promise<number[]> {
+    return checkDimensions(await this.session.run(text, { mean_pool: true, normalize: true }));
+  }
+}
+
+// OpenAI-compatible /embeddings endpoint (OpenAI, Ollama, llama.cpp, ...)
+// The model must produce (or be truncated to) 384 dimensions
+export class OpenAICompatibleEmbedder implements Embedder {
+  name = 'openai';
+
+  constructor(
+    private model = 'text-embedding-3-small',
+    private baseUrl = 'https://api.openai.com/v1',
+    private apiKey?: string
+  ) {}
+
+  async embed(text: string): Promise<number[]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, input: text, dimensions: EMBEDDING_DIMENSIONS }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embeddings API error (HTTP ${response.status}): ${await response.text()}`);
+    }
+
+    const result = await response.json();
+    return checkDimensions(normalize(result.data?.[0]?.embedding ?? []));
+  }
+}
+
+// Deterministic bag-of-words embedder for tests and offline development
+// Texts sharing words get similar vectors; no semantics beyond that
+export class FakeEmbedder implements Embedder {
+  name = 'fake';
+
+  embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+      let hash = 0;
+      for (const char of word) {
+        hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+      }
+      vector[hash % EMBEDDING_DIMENSIONS] += 1;
+    }
+    return Promise.resolve(normalize(vector));
+  }
+}
+
+// Build the configured embedder (gte-small by default)
+export function createEmbedder(config: EmbedderConfig): Embedder {
+  switch (config.provider ?? 'gte-small') {
+    case 'gte-small':
+      return new GteSmallEmbedder();
+    case 'openai':
+      return new OpenAICompatibleEmbedder(config.model, config.baseUrl, config.apiKey);
+    case 'fake':
+      return new FakeEmbedder();
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${config.provider}"`);
+  }
+}
+
+export function embedderFromEnv(): Embedder {
+  return createEmbedder({
+    provider: Deno.env.get('EMBEDDING_PROVIDER') || undefined,
+    model: Deno.env.get('EMBEDDING_MODEL') || undefined,
+    baseUrl: Deno.env.get('EMBEDDING_BASE_URL') || undefined,
+    apiKey: Deno.env.get('EMBEDDING_API_KEY') || undefined,
+  });
+}
+
+// Text embedded for a listing
+export function listingEmbeddingText(listing: { title: string; description: string; skills: string[] | null }): string {
+  const skills = listing.skills?.length ? `\nSkills: ${listing.skills.join(', ')}` : '';
+  return `${listing.title}\n${listing.description}${skills}`;
+}
+
+// Text embedded for a saved search (empty when it has no query or skills)
+export function savedSearchEmbeddingText(search: { query: string | null; skills_filter: string[] | null }): string {
+  return [search.query ?? '', ...(search.skills_filter ?? [])].join(' ').trim();
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return length === 0 ? vector : vector.map((v) => v / length);
+}
+
+function checkDimensions(vector: number[]): number[] {
+  if (vector.length !== EMBEDDING_DIMENSIONS) {
+    throw new Error(`Expected a ${EMBEDDING_DIMENSIONS}-dimension embedding, got ${vector.length}`);
+  }
+  return vector;
+}
@@ -1,38 +1,49 @@
 // AI-powered matching for opengig
-// Uses Claude to analyze queries and rank matches
+// Uses an LLM to analyze queries and rank matches
+//
+// Provider configuration (all optional):
+//   AI_MATCH_PROVIDER  anthropic | openai | fake (default: anthropic when a key is set)
+//   AI_MATCH_MODEL     model name (required for openai)
+//   AI_MATCH_BASE_URL  API base URL, e.g. http://host.docker.internal:11434/v1 for Ollama
+//   AI_MATCH_API_KEY   API key (falls back to ANTHROPIC_API_KEY)
+//   AI_MATCH_PROMPT    prompt template, see DEFAULT_PROMPT in ranking.ts for placeholders
+// Without a provider, listings are ranked by keyword matching.
+//
+// Candidates come from hybrid_search_listings (semantic + full-text, see
+// 015_listing_embeddings.sql) using the EMBEDDING_* embedder; if the query
+// can't be embedded, the newest listings are used instead.
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { embedderFromEnv } from '../_shared/embeddings.ts';
+import { createProvider } from './providers.ts';
+import { DEFAULT_PROMPT, rankWithAI, type Listing, type SearchType, type User } from './ranking.ts';
 
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
 const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const ANTHROPIC_API_KEY = Deno.env.get('ANTHROPIC_API_KEY');
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!;
 
+const CANDIDATE_LIMIT = 50;
+
+const provider = createProvider({
+  provider: Deno.env.get('AI_MATCH_PROVIDER') || undefined,
+  model: Deno.env.get('AI_MATCH_MODEL') || undefined,
+  baseUrl: Deno.env.get('AI_MATCH_BASE_URL') || undefined,
+  apiKey: Deno.env.get('AI_MATCH_API_KEY') || Deno.env.get('ANTHROPIC_API_KEY') || undefined,
+});
+const PROMPT_TEMPLATE = Deno.env.get('AI_MATCH_PROMPT') || DEFAULT_PROMPT;
+const embedder = embedderFromEnv();
+
+// The searching user comes from the caller's JWT, not the body
 interface MatchRequest {
   query: string;
-  type: 'jobs' | 'talent';
-  userId: string;
+  type: SearchType;
 }
 
-interface Listing {
-  id: string;
+interface UserReputation {
   user_id: string;
-  type: string;
-  title: string;
-  description: string;
-  skills: string[];
-  rate_min?: number;
-  rate_max?: number;
-  rate_type?: string;
-  remote: boolean;
-  location?: string;
-}
-
-interface User {
-  id: string;
-  name: string;
-  headline?: string;
-  linkedin_url: string;
+  rating_avg: number | null;
+  review_count: number;
 }
 
 serve(async (req) => {
@@ -42,15 +53,15 @@ serve(async (req) => {
       headers: {
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'POST',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey',
       },
     });
   }
 
   try {
-    const { query, type, userId }: MatchRequest = await req.json();
+    const { query, type }: MatchRequest = await req.json();
 
-    if (!query || !type || !userId) {
+    if (!query || !type) {
       return new Response(JSON.stringify({ error: 'Missing required fields' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
@@ -59,6 +70,19 @@ serve(async (req) => {
 
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
 
+    // Identify the caller from their access token
+    const jwt = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: authData } = jwt ? await supabase.auth.getUser(jwt) : { data: { user: null } };
+
+    if (!authData.user) {
+      return new Response(JSON.stringify({ error: 'Not authenticated' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const userId = authData.user.id;
+
     // Get the searching user's profile for context
     const { data: searchingUser } = await supabase
       .from('users')
@@ -69,16 +93,11 @@ serve(async (req) => {
     // Get relevant listings based on search type
     const listingType = type === 'jobs' ? 'job' : 'available';
 
-    const { data: listings, error: listingsError } = await supabase
-      .from('listings')
-      .select(`
-        *,
-        user:users (id, name, headline, linkedin_url)
-      `)
-      .eq('type', listingType)
-      .eq('active', true)
-      .neq('user_id', userId) // Don't show own listings
-      .limit(50);
+    // Candidate retrieval runs as the caller so RLS (e.g. blocked users) applies
+    const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: `Bearer ${jwt}` } },
+    });
+    const { data: listings, error: listingsError } = await fetchCandidates(userClient, query, listingType, userId);
 
     if (listingsError) {
       console.error('Listings error:', listingsError);
@@ -101,8 +120,21 @@ serve(async (req) => {
       );
     }
 
+    // Attach marketplace reputation (aggregated reviews) to each poster
+    const { data: reputations } = await supabase
+      .from('user_reputation')
+      .select('*')
+      .in('user_id', [...new Set(listings.map((l: Listing) => l.user_id))]);
+
+    const reputationMap = new Map((reputations || []).map((r: UserReputation) => [r.user_id, r]));
+    for (const listing of listings) {
+      const reputation = reputationMap.get(listing.user_id);
+      listing.user.rating_avg = reputation?.rating_avg ?? null;
+      listing.user.review_count = reputation?.review_count ?? 0;
+    }
+
     // Use AI to rank and explain matches
-    const matches = await rankWithAI(query, listings, searchingUser, type);
+    const matches = await rankWithAI(provider, PROMPT_TEMPLATE, query, listings, searchingUser, type);
 
     return new Response(
       JSON.stringify({ matches }),
@@ -123,170 +155,63 @@ serve(async (req) => {
   }
 });
 
-async function rankWithAI(
+// Listings most relevant to the query: hybrid search when the query can be
+// embedded, otherwise the newest active listings
+async function fetchCandidates(
+  supabase: SupabaseClient,
   query: string,
-  listings: (Listing & { user: User })[],
-  searchingUser: User | null,
-  searchType: 'jobs' | 'talent'
-): Promise<Array<{ listing: Listing; user: User; score: number; reasons: string[] }>> {
-  // If no API key, fall back to keyword matching
-  if (!ANTHROPIC_API_KEY) {
-    return keywordMatch(query, listings);
-  }
-
+  listingType: string,
+  userId: string
+) {
+  let queryEmbedding: number[] | null = null;
   try {
-    const listingsContext = listings.map((l, i) => ({
-      index: i,
-      title: l.title,
-      description: l.description.substring(0, 500),
-      skills: l.skills,
-      rate: l.rate_min && l.rate_max ? `$${l.rate_min}-${l.rate_max}` : 'negotiable',
-      remote: l.remote,
-      location: l.location,
-      poster: l.user.name,
-      headline: l.user.headline,
-    }));
-
-    const prompt = `You are a job matching assistant for opengig, a freelance marketplace.
-
-A user is searching for ${searchType === 'jobs' ? 'job opportunities' : 'freelancers to hire'}.
-
-User's search query: "${query}"
-${searchingUser?.headline ? `User's headline: ${searchingUser.headline}` : ''}
-
-Here are the available ${searchType === 'jobs' ? 'job listings' : 'freelancers'}:
-
-${JSON.stringify(listingsContext, null, 2)}
-
-Analyze each listing and rank them by relevance to the user's search query. Consider:
-- Skill match
-- Rate alignment (if mentioned)
-- Remote/location preferences
-- Experience level signals
-- Description relevance
-
-Return a JSON array of matches with this structure:
-{
-  "matches": [
-    {
-      "index": <listing index>,
-      "score": <0.0 to 1.0>,
-      "reasons": ["reason 1", "reason 2"]
-    }
-  ]
-}
-
-Only include listings with score > 0.3. Sort by score descending. Limit to top 10.
-Return ONLY the JSON, no other text.`;
-
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': ANTHROPIC_API_KEY,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 2000,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('Claude API error:', await response.text());
-      return keywordMatch(query, listings);
-    }
-
-    const result = await response.json();
-    const content = result.content[0]?.text || '{"matches":[]}';
-
-    // Parse AI response
-    const parsed = JSON.parse(content);
-    const aiMatches = parsed.matches || [];
-
-    // Map back to full listing objects
-    return aiMatches.map((m: { index: number; score: number; reasons: string[] }) => ({
-      listing: {
-        id: listings[m.index].id,
-        user_id: listings[m.index].user_id,
-        type: listings[m.index].type,
-        title: listings[m.index].title,
-        description: listings[m.index].description,
-        skills: listings[m.index].skills,
-        rate_min: listings[m.index].rate_min,
-        rate_max: listings[m.index].rate_max,
-        rate_type: listings[m.index].rate_type,
-        remote: listings[m.index].remote,
-        location: listings[m.index].location,
-      },
-      user: listings[m.index].user,
-      score: m.score,
-      reasons: m.reasons,
-    }));
+    queryEmbedding = await embedder.embed(query);
   } catch (error) {
-    console.error('AI ranking error:', error);
-    return keywordMatch(query, listings);
+    console.error(`Query embedding error (${embedder.name}):`, error);
   }
-}
-
-// Fallback: simple keyword matching when AI is not available
-function keywordMatch(
-  query: string,
-  listings: (Listing & { user: User })[]
-): Array<{ listing: Listing; user: User; score: number; reasons: string[] }> {
-  const queryWords = query.toLowerCase().split(/\s+/).filter((w) => w.length > 2);
 
-  const scored = listings.map((listing) => {
-    const searchText = `${listing.title} ${listing.description} ${listing.skills.join(' ')}`.toLowerCase();
-
-    let score = 0;
-    const matchedWords: string[] = [];
-
-    queryWords.forEach((word) => {
-      if (searchText.includes(word)) {
-        score += 0.2;
-        matchedWords.push(word);
-      }
-    });
-
-    // Skill exact matches are worth more
-    listing.skills.forEach((skill) => {
-      if (queryWords.includes(skill.toLowerCase())) {
-        score += 0.3;
-      }
-    });
-
-    // Cap at 1.0
-    score = Math.min(score, 1.0);
-
-    return {
-      listing: {
-        id: listing.id,
-        user_id: listing.user_id,
-        type: listing.type,
-        title: listing.title,
-        description: listing.description,
-        skills: listing.skills,
-        rate_min: listing.rate_min,
-        rate_max: listing.rate_max,
-        rate_type: listing.rate_type,
-        remote: listing.remote,
-        location: listing.location,
-      },
-      user: listing.user,
-      score,
-      reasons: matchedWords.length > 0 ? [`Matches: ${matchedWords.join(', ')}`] : [],
-    };
-  });
+  if (queryEmbedding) {
+    const { data: ranked, error } = await supabase
+      .rpc('hybrid_search_listings', {
+        search_query: query,
+        query_embedding: JSON.stringify(queryEmbedding),
+        listing_type: listingType,
+      })
+      .neq('user_id', userId) // Don't show own listings
+      .order('rank', { ascending: false })
+      .limit(CANDIDATE_LIMIT);
+
+    if (error) return { data: null, error };
+    if (ranked && ranked.length > 0) {
+      // The RPC embeds only public poster fields; load the rest for the response
+      const { data: posters, error: postersError } = await supabase
+        .from('users')
+        .select('id, name, headline, linkedin_url, created_at, last_active')
+        .in('id', [...new Set(ranked.map((l: Listing) => l.user_id))]);
+
+      if (postersError) return { data: null, error: postersError };
+      const posterMap = new Map((posters || []).map((u: User) => [u.id, u]));
+      return {
+        data: ranked
+          .filter((l: Listing) => posterMap.has(l.user_id))
+          .map(({ similarity: _similarity, rank: _rank, ...l }: Listing & { similarity: number; rank: number }) => ({
+            ...l,
+            user: posterMap.get(l.user_id)!,
+          })),
+        error: null,
+      };
+    }
+  }
 
-  return scored
-    .filter((m) => m.score > 0.1)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 10);
+  return await supabase
+    .from('listings')
+    .select(`
+      *,
+      user:users (id, name, headline, linkedin_url, created_at, last_active)
+    `)
+    .eq('type', listingType)
+    .eq('active', true)
+    .neq('user_id', userId) // Don't show own listings
+    .order('created_at', { ascending: false })
+    .limit(CANDIDATE_LIMIT);
 }
@@ -0,0 +1,142 @@
+// LLM providers for ai-match
+// Each provider turns a prompt into raw model text; parsing and validation
+// happen in ranking.ts so every provider is held to the same response schema.
+
+export interface CompletionRequest {
+  prompt: string;
+  maxTokens: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+export interface ProviderConfig {
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+// Anthropic Messages API
+export class AnthropicProvider implements LLMProvider {
+  name = 'anthropic';
+
+  constructor(
+    private apiKey: string,
+    private model = 'claude-3-haiku-20240307',
+    private baseUrl = 'https://api.anthropic.com'
+  ) {}
+
+  async complete({ prompt, maxTokens }: CompletionRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: maxTokens,
+        messages: [{ role: 'user', content: prompt }],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error (HTTP ${response.status}): ${await response.text()}`);
+    }
+
+    const result = await response.json();
+    return result.content?.[0]?.text ?? '';
+  }
+}
+
+// OpenAI-compatible chat completions (OpenAI, Ollama, llama.cpp, vLLM, ...)
+// Local servers usually don't need an API key
+export class OpenAICompatibleProvider implements LLMProvider {
+  name = 'openai';
+
+  constructor(
+    private model: string,
+    private baseUrl = 'https://api.openai.com/v1',
+    private apiKey?: string
+  ) {}
+
+  async complete({ prompt, maxTokens }: CompletionRequest): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: maxTokens,
+        temperature: 0,
+        messages: [{ role: 'user', content: prompt }],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible API error (HTTP ${response.status}): ${await response.text()}`);
+    }
+
+    const result = await response.json();
+    return result.choices?.[0]?.message?.content ?? '';
+  }
+}
+
+// One entry of the ranking the prompt asks for: the listing's index in
+// the prompt, a 0-1 score and the reasons shown to the user
+export interface ScriptedMatch {
+  index: number;
+  score: number;
+  reasons?: string[];
+}
+
+// Deterministic provider for tests and offline development
+// Returns a fixed response (or computes one from the request) and records
+// every request it receives
+export class FakeProvider implements LLMProvider {
+  name = 'fake';
+  requests: CompletionRequest[] = [];
+
+  constructor(private respond: string | ((request: CompletionRequest) => string) = '{"matches":[]}') {}
+
+  // Answer with these matches, formatted as the prompt asks the model to
+  static withMatches(matches: ScriptedMatch[]): FakeProvider {
+    return new FakeProvider(JSON.stringify({ matches }));
+  }
+
+  complete(request: CompletionRequest): Promise<string> {
+    this.requests.push(request);
+    return Promise.resolve(typeof this.respond === 'string' ? this.respond : this.respond(request));
+  }
+}
+
+// Build the configured provider, or null when none is configured
+// (ai-match then falls back to keyword matching)
+export function createProvider(config: ProviderConfig): LLMProvider | null {
+  const provider = config.provider ?? (config.apiKey ? 'anthropic' : undefined);
+
+  switch (provider) {
+    case undefined:
+      return null;
+    case 'anthropic':
+      if (!config.apiKey) return null;
+      return new AnthropicProvider(config.apiKey, config.model, config.baseUrl);
+    case 'openai':
+      if (!config.model) {
+        throw new Error('AI_MATCH_MODEL is required for the openai provider');
+      }
+      return new OpenAICompatibleProvider(config.model, config.baseUrl, config.apiKey);
+    case 'fake':
+      return new FakeProvider();
+    default:
+      throw new Error(`Unknown AI_MATCH_PROVIDER "${provider}"`);
+  }
+}
@@ -0,0 +1,203 @@
+// Run with: deno test supabase/functions/ai-match
+
+import { assert, assertEquals, assertStringIncludes, assertThrows } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import { FakeProvider } from './providers.ts';
+import { buildPrompt, DEFAULT_PROMPT, keywordMatch, parseRanking, rankWithAI, type Listing, type User } from './ranking.ts';
+
+function user(overrides: Partial<User> = {}): User {
+  return {
+    id: 'user-1',
+    name: 'Ada',
+    headline: 'Frontend engineer',
+    linkedin_url: 'https://www.linkedin.com/in/ada',
+    created_at: '2025-01-01T00:00:00Z',
+    last_active: '2026-01-01T00:00:00Z',
+    review_count: 0,
+    rating_avg: null,
+    ...overrides,
+  };
+}
+
+function listing(overrides: Partial<Listing> = {}, poster: User = user()): Listing & { user: User } {
+  return {
+    id: 'listing-1',
+    user_id: poster.id,
+    type: 'available',
+    title: 'React developer',
+    description: 'Building React frontends',
+    skills: ['react', 'typescript'],
+    currency: 'USD',
+    remote: true,
+    created_at: '2026-01-01T00:00:00Z',
+    active: true,
+    ...overrides,
+    user: poster,
+  };
+}
+
+const listings = [
+  listing(),
+  listing(
+    {
+      id: 'listing-2',
+      title: 'Go backend engineer',
+      description: 'APIs in Go',
+      skills: ['go'],
+      rate_min: 80,
+      rate_max: 120,
+      rate_type: 'hourly',
+      currency: 'EUR',
+    },
+    user({ id: 'user-2', name: 'Linus', review_count: 2, rating_avg: 4.5 })
+  ),
+  listing(
+    {
+      id: 'listing-3',
+      title: 'Landing page',
+      description: 'One-off site',
+      skills: ['html'],
+      rate_min: 5000,
+      rate_type: 'fixed',
+      estimated_hours: 40,
+    },
+    user({ id: 'user-3', name: 'Grace' })
+  ),
+];
+
+// ============================================
+// buildPrompt
+// ============================================
+
+Deno.test('buildPrompt fills every placeholder of the default prompt', () => {
+  const prompt = buildPrompt(DEFAULT_PROMPT, 'react dev', listings, user({ headline: 'Startup CTO' }), 'talent');
+
+  assert(!/\{\{\w+\}\}/.test(prompt), 'no placeholder left unfilled');
+  assertStringIncludes(prompt, 'A user is searching for freelancers to hire.');
+  assertStringIncludes(prompt, `User's search query: "react dev"`);
+  assertStringIncludes(prompt, "User's headline: Startup CTO");
+  assertStringIncludes(prompt, 'Here are the available freelancers:');
+});
+
+Deno.test('buildPrompt describes each listing by index, with rate and reputation', () => {
+  const prompt = buildPrompt('{{listings}}', 'go', listings, null, 'jobs');
+  const shown = JSON.parse(prompt);
+
+  assertEquals(shown.map((l: { index: number }) => l.index), [0, 1, 2]);
+  assertEquals(shown[0].rate, 'negotiable');
+  assertEquals(shown[0].rating, 'no reviews yet');
+  assertEquals(shown[1].rate, '80-120 EUR/hour');
+  assertEquals(shown[1].rating, '4.5/5 from 2 reviews');
+  assertEquals(shown[2].rate, '5000 USD fixed (~40 hours)');
+});
+
+Deno.test('buildPrompt leaves placeholder-like text in the query alone', () => {
+  const prompt = buildPrompt('Query: {{query}} / {{unknown}}', 'ignore {{listings}}', listings, null, 'jobs');
+
+  assertEquals(prompt, 'Query: ignore {{listings}} / {{unknown}}');
+});
+
+Deno.test('buildPrompt words a jobs search for job listings', () => {
+  const prompt = buildPrompt('{{search_target}} | {{listing_kind}} | {{user_context}}', 'go', listings, null, 'jobs');
+
+  assertEquals(prompt, 'job opportunities | job listings | ');
+});
+
+// ============================================
+// parseRanking
+// ============================================
+
+Deno.test('parseRanking reads JSON from a code fence with a preamble', () => {
+  const text = 'Here are the matches:\n```json\n{"matches": [{"index": 1, "score": 0.8, "reasons": ["Go"]}]}\n```';
+
+  assertEquals(parseRanking(text, listings.length), [{ index: 1, score: 0.8, reasons: ['Go'] }]);
+});
+
+Deno.test('parseRanking drops unknown and repeated indices, clamps and sorts scores', () => {
+  const text = JSON.stringify({
+    matches: [
+      { index: 0, score: 0.4 },
+      { index: 7, score: 0.9, reasons: ['not shown to the model'] },
+      { index: 2, score: 1.5, reasons: ['over 1'] },
+      { index: 0, score: 0.95, reasons: ['repeat'] },
+      { index: -1, score: 0.5 },
+    ],
+  });
+
+  assertEquals(parseRanking(text, listings.length), [
+    { index: 2, score: 1, reasons: ['over 1'] },
+    { index: 0, score: 0.4, reasons: [] },
+  ]);
+});
+
+Deno.test('parseRanking rejects text without a valid ranking', () => {
+  assertThrows(() => parseRanking('No good matches, sorry.', listings.length), Error, 'no JSON object');
+  assertThrows(() => parseRanking('{"matches": [{"index": "first"}]}', listings.length), Error, 'failed validation');
+});
+
+// ============================================
+// rankWithAI
+// ============================================
+
+Deno.test('rankWithAI returns the listings the provider ranked, in its order', async () => {
+  const provider = FakeProvider.withMatches([
+    { index: 2, score: 0.7, reasons: ['Fixed price fits'] },
+    { index: 1, score: 0.9, reasons: ['Knows Go', 'Well reviewed'] },
+  ]);
+
+  const matches = await rankWithAI(provider, DEFAULT_PROMPT, 'go api', listings, null, 'talent');
+
+  assertEquals(
+    matches.map((m) => [m.listing.id, m.user.name, m.score, m.reasons]),
+    [
+      ['listing-2', 'Linus', 0.9, ['Knows Go', 'Well reviewed']],
+      ['listing-3', 'Grace', 0.7, ['Fixed price fits']],
+    ]
+  );
+  assertEquals(provider.requests.length, 1);
+  assertEquals(provider.requests[0].maxTokens, 2000);
+  assertStringIncludes(provider.requests[0].prompt, `User's search query: "go api"`);
+});
+
+Deno.test('rankWithAI falls back to keyword matching without a provider', async () => {
+  const matches = await rankWithAI(null, DEFAULT_PROMPT, 'react developer', listings, null, 'talent');
+
+  assertEquals(matches, keywordMatch('react developer', listings));
+  assertEquals(matches[0].listing.id, 'listing-1');
+});
+
+Deno.test('rankWithAI falls back to keyword matching on an unusable response', async () => {
+  const provider = new FakeProvider('I cannot help with that.');
+
+  const matches = await rankWithAI(provider, DEFAULT_PROMPT, 'react developer', listings, null, 'talent');
+
+  assertEquals(matches, keywordMatch('react developer', listings));
+  assertEquals(provider.requests.length, 1);
+});
+
+Deno.test('rankWithAI falls back to keyword matching when the provider fails', async () => {
+  const provider = new FakeProvider(() => {
+    throw new Error('HTTP 529 overloaded');
+  });
+
+  const matches = await rankWithAI(provider, DEFAULT_PROMPT, 'go backend', listings, null, 'talent');
+
+  assertEquals(matches, keywordMatch('go backend', listings));
+});
+
+// ============================================
+// keywordMatch
+// ============================================
+
+Deno.test('keywordMatch scores word hits and exact skills, dropping non-matches', () => {
+  const matches = keywordMatch('React typescript', listings);
+
+  assertEquals(matches.length, 1);
+  assertEquals(matches[0].listing.id, 'listing-1');
+  // Two word hits (0.2 each) plus two exact skills (0.3 each), capped at 1
+  assertEquals(matches[0].score, 1);
+  assertEquals(matches[0].reasons, ['Matches: react, typescript']);
+});
+
+Deno.test('keywordMatch ignores words of two letters or fewer', () => {
+  assertEquals(keywordMatch('go', listings), []);
+});
@@ -0,0 +1,269 @@
+// Ranking logic for ai-match
+// Kept free of Deno.env and network access (other than through the provider)
+// so it can be exercised with FakeProvider.
+
+import { z } from 'https://esm.sh/zod@4';
+import type { LLMProvider } from './providers.ts';
+
+export interface Listing {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  description: string;
+  skills: string[];
+  rate_min?: number;
+  rate_max?: number;
+  rate_type?: string;
+  currency: string;
+  estimated_hours?: number;
+  remote: boolean;
+  location?: string;
+  created_at: string;
+  expires_at?: string;
+  active: boolean;
+}
+
+export interface User {
+  id: string;
+  name: string;
+  headline?: string;
+  linkedin_url: string;
+  created_at: string;
+  last_active: string;
+  rating_avg?: number | null;
+  review_count?: number;
+}
+
+export interface Match {
+  listing: Listing;
+  user: User;
+  score: number;
+  reasons: string[];
+}
+
+export type SearchType = 'jobs' | 'talent';
+
+// Placeholders: {{search_target}}, {{query}}, {{user_context}},
+// {{listing_kind}} and {{listings}}
+export const DEFAULT_PROMPT = `You are a job matching assistant for opengig, a freelance marketplace.
+
+A user is searching for {{search_target}}.
+
+User's search query: "{{query}}"
+{{user_context}}
+
+Here are the available {{listing_kind}}:
+
+{{listings}}
+
+Analyze each listing and rank them by relevance to the user's search query. Consider:
+- Skill match
+- Rate alignment (if mentioned)
+- Remote/location preferences
+- Experience level signals
+- Reputation (marketplace reviews from past engagements)
+- Description relevance
+
+Return a JSON array of matches with this structure:
+{
+  "matches": [
+    {
+      "index": <listing index>,
+      "score": <0.0 to 1.0>,
+      "reasons": ["reason 1", "reason 2"]
+    }
+  ]
+}
+
+Only include listings with score > 0.3. Sort by score descending. Limit to top 10.
+Return ONLY the JSON, no other text.`;
+
+const MAX_MATCHES = 10;
+
+const rankingSchema = z.object({
+  matches: z.array(
+    z.object({
+      index: z.number().int(),
+      score: z.number(),
+      reasons: z.array(z.string()).default([]),
+    })
+  ),
+});
+
+export type RankedIndex = z.infer<typeof rankingSchema>['matches'][number];
+
+export function buildPrompt(
+  template: string,
+  query: string,
+  listings: (Listing & { user: User })[],
+  searchingUser: User | null,
+  searchType: SearchType
+): string {
+  const listingsContext = listings.map((l, i) => ({
+    index: i,
+    title: l.title,
+    description: l.description.substring(0, 500),
+    skills: l.skills,
+    rate: describeRate(l),
+    remote: l.remote,
+    location: l.location,
+    poster: l.user.name,
+    headline: l.user.headline,
+    rating: l.user.review_count
+      ? `${l.user.rating_avg}/5 from ${l.user.review_count} review${l.user.review_count === 1 ? '' : 's'}`
+      : 'no reviews yet',
+  }));
+
+  const values: Record<string, string> = {
+    search_target: searchType === 'jobs' ? 'job opportunities' : 'freelancers to hire',
+    query,
+    user_context: searchingUser?.headline ? `User's headline: ${searchingUser.headline}` : '',
+    listing_kind: searchType === 'jobs' ? 'job listings' : 'freelancers',
+    listings: JSON.stringify(listingsContext, null, 2),
+  };
+
+  // Single pass so placeholder-like text in the query or listings is left alone
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, key) => values[key] ?? placeholder);
+}
+
+// Pull the JSON object out of model text that may be wrapped in a
+// code fence or surrounded by a preamble ("Here are the matches: ...")
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Model response contains no JSON object');
+  }
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+// Validate the model's ranking against the listings it was shown
+// Out-of-range or repeated indices are dropped, scores clamped to 0-1
+export function parseRanking(text: string, listingCount: number): RankedIndex[] {
+  const parsed = rankingSchema.safeParse(extractJson(text));
+  if (!parsed.success) {
+    throw new Error(`Model response failed validation: ${parsed.error.message}`);
+  }
+
+  const seen = new Set<number>();
+  return parsed.data.matches
+    .filter((m) => {
+      if (m.index < 0 || m.index >= listingCount || seen.has(m.index)) return false;
+      seen.add(m.index);
+      return true;
+    })
+    .map((m) => ({ ...m, score: Math.min(Math.max(m.score, 0), 1) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MATCHES);
+}
+
+// Rank listings with the provider, falling back to keyword matching when
+// there is no provider or its response can't be used
+export async function rankWithAI(
+  provider: LLMProvider | null,
+  promptTemplate: string,
+  query: string,
+  listings: (Listing & { user: User })[],
+  searchingUser: User | null,
+  searchType: SearchType
+): Promise<Match[]> {
+  if (!provider) {
+    return keywordMatch(query, listings);
+  }
+
+  try {
+    const text = await provider.complete({
+      prompt: buildPrompt(promptTemplate, query, listings, searchingUser, searchType),
+      maxTokens: 2000,
+    });
+
+    return parseRanking(text, listings.length).map((m) => ({
+      ...toMatch(listings[m.index]),
+      score: m.score,
+      reasons: m.reasons,
+    }));
+  } catch (error) {
+    console.error(`AI ranking error (${provider.name}):`, error);
+    return keywordMatch(query, listings);
+  }
+}
+
+// Rate as shown to the model, e.g. "80-120 EUR/hour" or "5000 USD fixed (~40 hours)"
+function describeRate(l: Listing): string {
+  if (l.rate_type === 'negotiable' || (!l.rate_min && !l.rate_max)) return 'negotiable';
+
+  const amount =
+    l.rate_min && l.rate_max && l.rate_min !== l.rate_max ? `${l.rate_min}-${l.rate_max}` : `${l.rate_min || l.rate_max}`;
+  if (l.rate_type === 'fixed') {
+    return `${amount} ${l.currency} fixed${l.estimated_hours ? ` (~${l.estimated_hours} hours)` : ''}`;
+  }
+  return `${amount} ${l.currency}/hour`;
+}
+
+function toMatch(listing: Listing & { user: User }): Omit<Match, 'score' | 'reasons'> {
+  return {
+    listing: {
+      id: listing.id,
+      user_id: listing.user_id,
+      type: listing.type,
+      title: listing.title,
+      description: listing.description,
+      skills: listing.skills,
+      rate_min: listing.rate_min,
+      rate_max: listing.rate_max,
+      rate_type: listing.rate_type,
+      currency: listing.currency,
+      estimated_hours: listing.estimated_hours,
+      remote: listing.remote,
+      location: listing.location,
+      created_at: listing.created_at,
+      expires_at: listing.expires_at,
+      active: listing.active,
+    },
+    user: listing.user,
+  };
+}
+
+// Fallback: simple keyword matching when AI is not available
+export function keywordMatch(query: string, listings: (Listing & { user: User })[]): Match[] {
+  const queryWords = query.toLowerCase().split(/\s+/).filter((w) => w.length > 2);
+
+  const scored = listings.map((listing) => {
+    const searchText = `${listing.title} ${listing.description} ${listing.skills.join(' ')}`.toLowerCase();
+
+    let score = 0;
+    const matchedWords: string[] = [];
+
+    queryWords.forEach((word) => {
+      if (searchText.includes(word)) {
+        score += 0.2;
+        matchedWords.push(word);
+      }
+    });
+
+    // Skill exact matches are worth more
+    listing.skills.forEach((skill) => {
+      if (queryWords.includes(skill.toLowerCase())) {
+        score += 0.3;
+      }
+    });
+
+    // Cap at 1.0
+    score = Math.min(score, 1.0);
+
+    return {
+      ...toMatch(listing),
+      score,
+      reasons: matchedWords.length > 0 ? [`Matches: ${matchedWords.join(', ')}`] : [],
+    };
+  });
+
+  return scored
+    .filter((m) => m.score > 0.1)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MATCHES);
+}
@@ -0,0 +1,209 @@
+/**
+ * Edge function for device-code login (`opengig auth --headless`)
+ *
+ * Follows the OAuth device authorization grant (RFC 8628), with the
+ * Supabase session standing in for the access token:
+ * - POST { "action": "start" }: returns device_code, user_code,
+ *   verification_uri(_complete), expires_in and interval
+ * - POST { "action": "approve", "user_code", "refresh_token" } with the
+ *   user's access token: called by the verification page after LinkedIn
+ *   sign-in, attaches that session to the pending request
+ * - POST { "action": "poll", "device_code" }: 400 with
+ *   authorization_pending / slow_down / expired_token until approved, then
+ *   returns { access_token, refresh_token } once and forgets the request
+ *
+ * The verification page defaults to the static docs/device.html on GitHub
+ * Pages; override with DEVICE_VERIFICATION_URL. Its URL must be in the
+ * project's auth redirect allow-list.
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const VERIFICATION_URL = Deno.env.get('DEVICE_VERIFICATION_URL') || 'https://ldraney.github.io/opengig/device.html';
+
+const EXPIRES_IN_SECONDS = 10 * 60;
+const POLL_INTERVAL_SECONDS = 5;
+// No vowels or look-alikes, so codes can't spell words and are easy to read out
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ';
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS (the verification page calls approve from the browser)
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey',
+      },
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    switch (body.action) {
+      case 'start':
+        return await start(supabase);
+      case 'approve':
+        return await approve(supabase, req.headers.get('Authorization')?.replace(/^Bearer\s+/i, ''), body);
+      case 'poll':
+        return await poll(supabase, body);
+      default:
+        return json({ error: 'invalid_request', error_description: 'action must be start, approve or poll' }, 400);
+    }
+  } catch (error) {
+    console.error('Device auth error:', error);
+    return json({ error: 'server_error' }, 500);
+  }
+});
+
+async function start(supabase: ReturnType<typeof createClient>): Promise<Response> {
+  // Housekeeping: requests nobody finished
+  await supabase.from('device_auth_requests').delete().lt('expires_at', new Date().toISOString());
+
+  const deviceCode = base64url(crypto.getRandomValues(new Uint8Array(32)));
+  const expiresAt = new Date(Date.now() + EXPIRES_IN_SECONDS * 1000).toISOString();
+
+  // Retry on the (unlikely) user code collision
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const userCode = generateUserCode();
+    const { error } = await supabase.from('device_auth_requests').insert({
+      device_code_hash: await sha256(deviceCode),
+      user_code: userCode,
+      expires_at: expiresAt,
+    });
+    if (error?.code === '23505') continue;
+    if (error) throw error;
+
+    return json({
+      device_code: deviceCode,
+      user_code: userCode,
+      verification_uri: VERIFICATION_URL,
+      verification_uri_complete: `${VERIFICATION_URL}?user_code=${userCode}`,
+      expires_in: EXPIRES_IN_SECONDS,
+      interval: POLL_INTERVAL_SECONDS,
+    });
+  }
+  throw new Error('Could not allocate a user code');
+}
+
+async function approve(
+  supabase: ReturnType<typeof createClient>,
+  accessToken: string | undefined,
+  body: { user_code?: unknown; refresh_token?: unknown }
+): Promise<Response> {
+  const { data: authData } = accessToken ? await supabase.auth.getUser(accessToken) : { data: { user: null } };
+  if (!authData.user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+  if (typeof body.user_code !== 'string' || typeof body.refresh_token !== 'string' || !body.refresh_token) {
+    return json({ error: 'user_code and refresh_token are required' }, 400);
+  }
+
+  // Only a pending, unexpired request can be approved, and only once
+  const { data, error } = await supabase
+    .from('device_auth_requests')
+    .update({
+      user_id: authData.user.id,
+      access_token: accessToken,
+      refresh_token: body.refresh_token,
+      approved_at: new Date().toISOString(),
+    })
+    .eq('user_code', normalizeUserCode(body.user_code))
+    .is('approved_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('user_code');
+
+  if (error) throw error;
+  if (!data?.length) {
+    return json({ error: 'Code not found, already used, or expired' }, 404);
+  }
+  return json({ approved: true });
+}
+
+async function poll(
+  supabase: ReturnType<typeof createClient>,
+  body: { device_code?: unknown }
+): Promise<Response> {
+  if (typeof body.device_code !== 'string') {
+    return json({ error: 'invalid_request', error_description: 'device_code is required' }, 400);
+  }
+
+  const hash = await sha256(body.device_code);
+  const { data: request, error } = await supabase
+    .from('device_auth_requests')
+    .select('*')
+    .eq('device_code_hash', hash)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!request) {
+    return json({ error: 'invalid_grant' }, 400);
+  }
+
+  const now = Date.now();
+  if (Date.parse(request.expires_at) <= now) {
+    await supabase.from('device_auth_requests').delete().eq('device_code_hash', hash);
+    return json({ error: 'expired_token' }, 400);
+  }
+
+  if (request.approved_at) {
+    // Hand the session out exactly once
+    await supabase.from('device_auth_requests').delete().eq('device_code_hash', hash);
+    return json({ access_token: request.access_token, refresh_token: request.refresh_token });
+  }
+
+  await supabase
+    .from('device_auth_requests')
+    .update({ last_polled_at: new Date(now).toISOString() })
+    .eq('device_code_hash', hash);
+
+  if (request.last_polled_at && now - Date.parse(request.last_polled_at) < POLL_INTERVAL_SECONDS * 1000) {
+    return json({ error: 'slow_down' }, 400);
+  }
+  return json({ error: 'authorization_pending' }, 400);
+}
+
+// XXXX-XXXX from USER_CODE_ALPHABET
+function generateUserCode(): string {
+  const chars: string[] = [];
+  while (chars.length < 8) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(16))) {
+      // Reject the tail of the byte range so every letter is equally likely
+      if (byte < 240 && chars.length < 8) chars.push(USER_CODE_ALPHABET[byte % USER_CODE_ALPHABET.length]);
+    }
+  }
+  return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+}
+
+// Accept "bcdf ghjk", "BCDFGHJK", ...
+function normalizeUserCode(code: string): string {
+  const compact = code.toUpperCase().replace(/[^A-Z]/g, '');
+  return `${compact.slice(0, 4)}-${compact.slice(4)}`;
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function base64url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
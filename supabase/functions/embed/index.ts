@@ -0,0 +1,193 @@
+/**
+ * Edge function to compute embeddings for semantic search
+ *
+ * Three ways to call it:
+ * - Database webhook on listings / saved_searches INSERT and UPDATE, sent by
+ *   the triggers in 028_embed_webhook.sql (needs the project_url and
+ *   service_role_key Vault secrets): embeds the changed row (rows that
+ *   already have an embedding are skipped)
+ * - Cron or manual POST with an empty body: backfills rows whose embedding
+ *   is NULL (new rows, or rows whose text changed), up to 50 per table
+ * - POST { "input": "..." } with a user's access token: returns the
+ *   embedding for a search query ({ embedding: number[] })
+ *
+ * Webhook and backfill calls must use the service role key.
+ * Embedder is configured with EMBEDDING_PROVIDER (gte-small | openai | fake),
+ * EMBEDDING_MODEL, EMBEDDING_BASE_URL and EMBEDDING_API_KEY.
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { z } from 'https://esm.sh/zod@4';
+import { embedderFromEnv, listingEmbeddingText, savedSearchEmbeddingText } from '../_shared/embeddings.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const embedder = embedderFromEnv();
+
+const BATCH_SIZE = 50;
+
+interface WebhookPayload {
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  table: string;
+  record: Record<string, unknown> | null;
+}
+
+interface EmbeddedTable {
+  // Columns the embedded text is built from
+  columns: string;
+  // PostgREST or-filter excluding rows with nothing to embed, so they
+  // don't fill every backfill batch
+  pending?: string;
+  // Row id and the text to embed, from a webhook record or backfill row
+  prepare(row: unknown): { id: string; text: string };
+}
+
+// Rows arrive untyped (webhook JSON, PostgREST), so each table validates
+// its columns before building the text
+function embeddedTable<Row extends { id: string }>(config: {
+  columns: string;
+  pending?: string;
+  row: z.ZodType<Row>;
+  text: (row: Row) => string;
+}): EmbeddedTable {
+  return {
+    columns: config.columns,
+    pending: config.pending,
+    prepare(raw) {
+      const row = config.row.parse(raw);
+      return { id: row.id, text: config.text(row) };
+    },
+  };
+}
+
+const EMBEDDED_TABLES: Record<string, EmbeddedTable> = {
+  listings: embeddedTable({
+    columns: 'id, title, description, skills',
+    row: z.object({
+      id: z.string(),
+      title: z.string(),
+      description: z.string(),
+      skills: z.array(z.string()).nullable(),
+    }),
+    text: listingEmbeddingText,
+  }),
+  saved_searches: embeddedTable({
+    columns: 'id, query, skills_filter',
+    pending: 'query.neq."",skills_filter.neq.{}',
+    row: z.object({
+      id: z.string(),
+      query: z.string().nullable(),
+      skills_filter: z.array(z.string()).nullable(),
+    }),
+    text: savedSearchEmbeddingText,
+  }),
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey',
+      },
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    // Query embedding for a signed-in user
+    if (typeof body.input === 'string') {
+      const { data: authData } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+      if (!authData.user) {
+        return json({ error: 'Not authenticated' }, 401);
+      }
+      if (!body.input.trim()) {
+        return json({ error: 'Empty input' }, 400);
+      }
+      return json({ embedding: await embedder.embed(body.input), embedder: embedder.name });
+    }
+
+    if (token !== SUPABASE_SERVICE_ROLE_KEY) {
+      return json({ error: 'Service role key required' }, 401);
+    }
+
+    // Database webhook: embed just the changed row
+    const payload = body as Partial<WebhookPayload>;
+    if (payload.type && payload.table) {
+      const table = EMBEDDED_TABLES[payload.table];
+      if (!table || payload.type === 'DELETE' || !payload.record || payload.record.embedding) {
+        return json({ embedded: 0 });
+      }
+      const { id, text } = table.prepare(payload.record);
+      const embedded = await embedRow(supabase, payload.table, text, id);
+      return json({ embedded: embedded ? 1 : 0 });
+    }
+
+    // Backfill: rows with no embedding yet
+    const counts: Record<string, number> = {};
+    for (const [name, table] of Object.entries(EMBEDDED_TABLES)) {
+      let query = supabase.from(name).select(table.columns).is('embedding', null);
+      if (table.pending) {
+        query = query.or(table.pending);
+      }
+
+      const { data: rows, error } = await query
+        .order('created_at', { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (error) throw error;
+
+      counts[name] = 0;
+      for (const row of rows || []) {
+        const { id, text } = table.prepare(row);
+        if (await embedRow(supabase, name, text, id)) {
+          counts[name]++;
+        }
+      }
+    }
+
+    return json({ embedded: counts, embedder: embedder.name });
+  } catch (error) {
+    console.error('Embed error:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// Store the embedding for one row; rows with no text to embed are left NULL
+async function embedRow(
+  supabase: ReturnType<typeof createClient>,
+  table: string,
+  text: string,
+  id: string
+): Promise<boolean> {
+  if (!text) return false;
+
+  const embedding = await embedder.embed(text);
+  const { error } = await supabase
+    .from(table)
+    .update({ embedding: JSON.stringify(embedding) })
+    .eq('id', id);
+
+  if (error) throw error;
+  return true;
+}
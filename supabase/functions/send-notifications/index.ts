@@ -2,6 +2,11 @@
  * Edge function to send pending email notifications
  * Triggered by cron job or manual invocation
  *
+ * Each run first checks saved searches for new matching listings
+ * (check_saved_search_matches) so 'new_match' alerts are queued too.
+ * With RECOMMENDATION_NOTIFICATIONS=true it also pushes the best new
+ * counterpart listings to listing owners (push_listing_recommendations).
+ *
  * Requires RESEND_API_KEY environment variable
  */
 
@@ -10,6 +15,7 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY');
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const RECOMMENDATION_NOTIFICATIONS = Deno.env.get('RECOMMENDATION_NOTIFICATIONS') === 'true';
 
 interface Notification {
   id: string;
@@ -42,11 +48,25 @@ Deno.serve(async (req) => {
   const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
   try {
+    // Turn new listings into 'new_match' notifications for saved searches
+    const { data: matchCount, error: matchError } = await supabase.rpc('check_saved_search_matches');
+    if (matchError) throw matchError;
+
+    // Optionally suggest counterpart listings for users' own listings
+    let recommendationCount = 0;
+    if (RECOMMENDATION_NOTIFICATIONS) {
+      const { data, error: recommendError } = await supabase.rpc('push_listing_recommendations');
+      if (recommendError) throw recommendError;
+      recommendationCount = data;
+    }
+
     // Get pending notifications (limit to 50 per run)
+    // Saved searches with notify_email off still get in-session notifications, just no email
     const { data: notifications, error: fetchError } = await supabase
       .from('notifications')
       .select('*')
       .eq('email_sent', false)
+      .or('metadata->>notify_email.is.null,metadata->>notify_email.neq.false')
       .order('created_at', { ascending: true })
       .limit(50);
 
@@ -54,7 +74,12 @@ Deno.serve(async (req) => {
 
     if (!notifications || notifications.length === 0) {
       return new Response(
-        JSON.stringify({ message: 'No pending notifications', sent: 0 }),
+        JSON.stringify({
+          message: 'No pending notifications',
+          sent: 0,
+          new_matches: matchCount,
+          recommendations: recommendationCount,
+        }),
         { headers: { 'Content-Type': 'application/json' } }
       );
     }
@@ -119,6 +144,8 @@ Deno.serve(async (req) => {
       JSON.stringify({
         message: `Processed ${notifications.length} notifications`,
         sent,
+        new_matches: matchCount,
+        recommendations: recommendationCount,
         errors: errors.length > 0 ? errors : undefined,
       }),
       { headers: { 'Content-Type': 'application/json' } }
@@ -0,0 +1,101 @@
+-- Background matching for saved searches
+-- Turns new listings into 'new_match' notifications without the user
+-- having to call run_saved_search
+
+-- Every (saved search, listing) pair that has already been notified.
+-- Primary key guarantees a listing never triggers the same search twice.
+CREATE TABLE saved_search_matches (
+    saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+    listing_id UUID NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+    notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (saved_search_id, listing_id)
+);
+
+CREATE INDEX idx_saved_search_matches_listing ON saved_search_matches(listing_id);
+
+-- Enable RLS
+ALTER TABLE saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+-- Users can see which listings matched their own searches
+CREATE POLICY "Users can view own saved search matches" ON saved_search_matches
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM saved_searches s
+            WHERE s.id = saved_search_id
+                AND auth.uid()::text = s.user_id::text
+        )
+    );
+
+-- Re-evaluate every active saved search against listings created since
+-- its last_checked_at. Filters mirror the run_saved_search MCP tool.
+-- Creates at most one notification per search per run and returns how
+-- many were created. Called by send-notifications (or any scheduled job).
+CREATE OR REPLACE FUNCTION check_saved_search_matches()
+RETURNS INTEGER AS $$
+DECLARE
+    s saved_searches%ROWTYPE;
+    run_started TIMESTAMPTZ := NOW();
+    matched_ids UUID[];
+    matched_titles TEXT[];
+    new_notification_id UUID;
+    created_count INTEGER := 0;
+BEGIN
+    FOR s IN SELECT * FROM saved_searches WHERE active = true LOOP
+        SELECT
+            array_agg(l.id ORDER BY l.created_at DESC),
+            array_agg(l.title ORDER BY l.created_at DESC)
+        INTO matched_ids, matched_titles
+        FROM listings l
+        WHERE l.type = CASE s.search_type WHEN 'jobs' THEN 'job' ELSE 'available' END
+            AND l.active = true
+            AND l.user_id <> s.user_id
+            AND (l.expires_at IS NULL OR l.expires_at > run_started)
+            AND l.created_at > COALESCE(s.last_checked_at, s.created_at)
+            AND l.created_at <= run_started
+            AND (NOT COALESCE(s.remote_only, false) OR l.remote = true)
+            AND (COALESCE(s.rate_min, 0) = 0 OR l.rate_max >= s.rate_min)
+            AND (COALESCE(s.rate_max, 0) = 0 OR l.rate_min <= s.rate_max)
+            AND (COALESCE(cardinality(s.skills_filter), 0) = 0 OR l.skills && s.skills_filter)
+            AND (COALESCE(s.location, '') = '' OR l.location ILIKE '%' || s.location || '%')
+            AND NOT EXISTS (
+                SELECT 1 FROM saved_search_matches m
+                WHERE m.saved_search_id = s.id
+                    AND m.listing_id = l.id
+            );
+
+        IF matched_ids IS NOT NULL THEN
+            INSERT INTO notifications (user_id, type, title, body, metadata)
+            VALUES (
+                s.user_id,
+                'new_match',
+                'New matches for "' || s.name || '"',
+                cardinality(matched_ids) ||
+                    CASE WHEN cardinality(matched_ids) = 1 THEN ' new listing matches' ELSE ' new listings match' END ||
+                    ' your saved search: ' ||
+                    array_to_string(matched_titles[1:3], ', ') ||
+                    CASE WHEN cardinality(matched_ids) > 3 THEN ', ...' ELSE '' END,
+                jsonb_build_object(
+                    'saved_search_id', s.id,
+                    'listing_ids', to_jsonb(matched_ids),
+                    'notify_email', COALESCE(s.notify_email, true)
+                )
+            )
+            RETURNING id INTO new_notification_id;
+
+            INSERT INTO saved_search_matches (saved_search_id, listing_id, notification_id)
+            SELECT s.id, unnest(matched_ids), new_notification_id
+            ON CONFLICT DO NOTHING;
+
+            created_count := created_count + 1;
+        END IF;
+
+        UPDATE saved_searches SET last_checked_at = run_started WHERE id = s.id;
+    END LOOP;
+
+    RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the service role (edge functions, cron) may run the matcher
+REVOKE EXECUTE ON FUNCTION check_saved_search_matches() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,64 @@
+-- Full-text search for listings
+-- Ranks the whole table against the search_vector column from 001
+-- instead of scoring only the newest rows client-side
+
+-- Active, unexpired listings of one type matching a natural-language query,
+-- with the poster embedded as "user" and a relevance rank in [0, 1).
+-- Queries use websearch syntax: quoted phrases, "or", and -exclusions.
+-- A query with no searchable terms (e.g. only stop words) matches every
+-- listing with rank 0, so callers fall back to recency.
+-- Runs as the caller, so RLS on listings and users still applies.
+-- Callers chain further PostgREST filters, ordering and limits on the result.
+CREATE OR REPLACE FUNCTION search_listings(search_query TEXT, listing_type TEXT)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    type TEXT,
+    title TEXT,
+    description TEXT,
+    skills TEXT[],
+    rate_min INTEGER,
+    rate_max INTEGER,
+    rate_type TEXT,
+    location TEXT,
+    remote BOOLEAN,
+    created_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    active BOOLEAN,
+    "user" JSONB,
+    rank REAL
+) AS $$
+    SELECT
+        l.id,
+        l.user_id,
+        l.type,
+        l.title,
+        l.description,
+        l.skills,
+        l.rate_min,
+        l.rate_max,
+        l.rate_type,
+        l.location,
+        l.remote,
+        l.created_at,
+        l.expires_at,
+        l.active,
+        jsonb_build_object(
+            'id', u.id,
+            'name', u.name,
+            'headline', u.headline,
+            'linkedin_url', u.linkedin_url
+        ),
+        CASE
+            WHEN numnode(q.query) = 0 THEN 0
+            -- Normalization 32 maps rank to rank / (rank + 1)
+            ELSE ts_rank(l.search_vector, q.query, 32)
+        END
+    FROM listings l
+    JOIN users u ON u.id = l.user_id
+    CROSS JOIN websearch_to_tsquery('english', COALESCE(search_query, '')) AS q(query)
+    WHERE l.type = listing_type
+        AND l.active = true
+        AND (l.expires_at IS NULL OR l.expires_at > NOW())
+        AND (numnode(q.query) = 0 OR l.search_vector @@ q.query);
+$$ LANGUAGE sql STABLE;
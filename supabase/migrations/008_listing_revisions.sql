@@ -0,0 +1,76 @@
+-- Listing change history
+-- Listings can be edited in place (update_listing) so their IDs and linked
+-- conversations survive; every edit keeps a copy of the previous version
+
+CREATE TABLE listing_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    listing_id UUID NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+    revision INTEGER NOT NULL,
+    edited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    changed_fields TEXT[] NOT NULL DEFAULT '{}',
+    -- Values of the editable fields before the edit
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    skills TEXT[] NOT NULL DEFAULT '{}',
+    rate_min INTEGER,
+    rate_max INTEGER,
+    rate_type TEXT,
+    location TEXT,
+    remote BOOLEAN NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT unique_listing_revision UNIQUE (listing_id, revision)
+);
+
+CREATE INDEX idx_listing_revisions_listing ON listing_revisions(listing_id, revision DESC);
+
+-- Enable RLS
+ALTER TABLE listing_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see the listing can see how it changed
+CREATE POLICY "Listing revisions are viewable with the listing" ON listing_revisions
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM listings l WHERE l.id = listing_id)
+    );
+
+-- Function to snapshot the previous version when editable fields change.
+-- Renewals and deactivations only touch expires_at/active and are not recorded.
+CREATE OR REPLACE FUNCTION record_listing_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+    changed TEXT[] := '{}';
+BEGIN
+    IF NEW.title IS DISTINCT FROM OLD.title THEN changed := array_append(changed, 'title'); END IF;
+    IF NEW.description IS DISTINCT FROM OLD.description THEN changed := array_append(changed, 'description'); END IF;
+    IF NEW.skills IS DISTINCT FROM OLD.skills THEN changed := array_append(changed, 'skills'); END IF;
+    IF NEW.rate_min IS DISTINCT FROM OLD.rate_min THEN changed := array_append(changed, 'rate_min'); END IF;
+    IF NEW.rate_max IS DISTINCT FROM OLD.rate_max THEN changed := array_append(changed, 'rate_max'); END IF;
+    IF NEW.rate_type IS DISTINCT FROM OLD.rate_type THEN changed := array_append(changed, 'rate_type'); END IF;
+    IF NEW.location IS DISTINCT FROM OLD.location THEN changed := array_append(changed, 'location'); END IF;
+    IF NEW.remote IS DISTINCT FROM OLD.remote THEN changed := array_append(changed, 'remote'); END IF;
+
+    IF cardinality(changed) > 0 THEN
+        INSERT INTO listing_revisions (
+            listing_id, revision, edited_by, changed_fields,
+            title, description, skills, rate_min, rate_max, rate_type, location, remote
+        )
+        SELECT
+            OLD.id,
+            COALESCE(MAX(r.revision), 0) + 1,
+            auth.uid(),
+            changed,
+            OLD.title, OLD.description, OLD.skills, OLD.rate_min, OLD.rate_max,
+            OLD.rate_type, OLD.location, OLD.remote
+        FROM listing_revisions r
+        WHERE r.listing_id = OLD.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger for listing edits
+DROP TRIGGER IF EXISTS on_listing_update_record_revision ON listings;
+CREATE TRIGGER on_listing_update_record_revision
+    AFTER UPDATE ON listings
+    FOR EACH ROW
+    EXECUTE FUNCTION record_listing_revision();
@@ -0,0 +1,164 @@
+-- Proposals: structured applications against a listing
+-- Listing owners review them and accept (opening a conversation) or decline
+
+CREATE TABLE proposals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    listing_id UUID NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+    applicant_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    cover_note TEXT NOT NULL,
+    proposed_rate INTEGER,
+    rate_type TEXT CHECK (rate_type IN ('hourly', 'fixed', 'negotiable')),
+    available_from DATE,
+    estimated_duration TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+    decision_note TEXT,
+    conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    decided_at TIMESTAMPTZ,
+    CONSTRAINT unique_proposal_per_listing UNIQUE (listing_id, applicant_id)
+);
+
+CREATE INDEX idx_proposals_listing ON proposals(listing_id, created_at DESC);
+CREATE INDEX idx_proposals_applicant ON proposals(applicant_id, created_at DESC);
+
+-- Owner lookup that ignores listing RLS, so owners keep access to
+-- proposals after deactivating a listing
+CREATE OR REPLACE FUNCTION listing_owner(p_listing_id UUID)
+RETURNS UUID AS $$
+    SELECT user_id FROM listings WHERE id = p_listing_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE proposals ENABLE ROW LEVEL SECURITY;
+
+-- Applicants and listing owners can see a proposal
+CREATE POLICY "Applicants and listing owners can view proposals" ON proposals
+    FOR SELECT USING (
+        auth.uid() = applicant_id OR auth.uid() = listing_owner(listing_id)
+    );
+
+-- Users can propose on active listings that aren't their own
+CREATE POLICY "Users can submit proposals" ON proposals
+    FOR INSERT WITH CHECK (
+        auth.uid() = applicant_id
+        AND status = 'pending'
+        AND EXISTS (
+            SELECT 1 FROM listings l
+            WHERE l.id = listing_id
+                AND l.active = true
+                AND l.user_id <> auth.uid()
+        )
+    );
+
+-- Only listing owners can decide on proposals
+CREATE POLICY "Listing owners can update proposals" ON proposals
+    FOR UPDATE USING (auth.uid() = listing_owner(listing_id));
+
+-- Function to keep proposal updates to a single pending -> accepted/declined decision
+CREATE OR REPLACE FUNCTION enforce_proposal_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.listing_id IS DISTINCT FROM OLD.listing_id
+        OR NEW.applicant_id IS DISTINCT FROM OLD.applicant_id
+        OR NEW.cover_note IS DISTINCT FROM OLD.cover_note
+        OR NEW.proposed_rate IS DISTINCT FROM OLD.proposed_rate
+        OR NEW.rate_type IS DISTINCT FROM OLD.rate_type
+        OR NEW.available_from IS DISTINCT FROM OLD.available_from
+        OR NEW.estimated_duration IS DISTINCT FROM OLD.estimated_duration
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'Proposal terms cannot be changed';
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        IF OLD.status <> 'pending' THEN
+            RAISE EXCEPTION 'Proposal has already been %', OLD.status;
+        END IF;
+        NEW.decided_at := NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger for proposal updates
+DROP TRIGGER IF EXISTS on_proposal_update_enforce_transition ON proposals;
+CREATE TRIGGER on_proposal_update_enforce_transition
+    BEFORE UPDATE ON proposals
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_proposal_transition();
+
+-- Allow proposal notification types
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+    CHECK (type IN (
+        'new_match', 'message_received', 'listing_expiring', 'contact_shared',
+        'proposal_received', 'proposal_accepted', 'proposal_declined'
+    ));
+
+-- Function to notify the listing owner of a new proposal
+CREATE OR REPLACE FUNCTION notify_on_new_proposal()
+RETURNS TRIGGER AS $$
+DECLARE
+    applicant_name TEXT;
+    listing_title TEXT;
+    owner_id UUID;
+BEGIN
+    SELECT name INTO applicant_name FROM users WHERE id = NEW.applicant_id;
+    SELECT title, user_id INTO listing_title, owner_id FROM listings WHERE id = NEW.listing_id;
+
+    INSERT INTO notifications (user_id, type, title, body, metadata)
+    VALUES (
+        owner_id,
+        'proposal_received',
+        'New proposal received',
+        COALESCE(applicant_name, 'Someone') || ' sent a proposal for "' || listing_title || '"',
+        jsonb_build_object(
+            'proposal_id', NEW.id,
+            'listing_id', NEW.listing_id,
+            'applicant_id', NEW.applicant_id
+        )
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger for new proposals
+DROP TRIGGER IF EXISTS on_new_proposal_notify ON proposals;
+CREATE TRIGGER on_new_proposal_notify
+    AFTER INSERT ON proposals
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_on_new_proposal();
+
+-- Function to notify the applicant when their proposal is accepted or declined
+CREATE OR REPLACE FUNCTION notify_on_proposal_decision()
+RETURNS TRIGGER AS $$
+DECLARE
+    listing_title TEXT;
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('accepted', 'declined') THEN
+        SELECT title INTO listing_title FROM listings WHERE id = NEW.listing_id;
+
+        INSERT INTO notifications (user_id, type, title, body, metadata)
+        VALUES (
+            NEW.applicant_id,
+            'proposal_' || NEW.status,
+            'Proposal ' || NEW.status,
+            'Your proposal for "' || COALESCE(listing_title, 'a listing') || '" was ' || NEW.status ||
+                CASE WHEN NEW.decision_note IS NOT NULL THEN ': ' || NEW.decision_note ELSE '' END,
+            jsonb_build_object(
+                'proposal_id', NEW.id,
+                'listing_id', NEW.listing_id,
+                'conversation_id', NEW.conversation_id
+            )
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger for proposal decisions
+DROP TRIGGER IF EXISTS on_proposal_decision_notify ON proposals;
+CREATE TRIGGER on_proposal_decision_notify
+    AFTER UPDATE ON proposals
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_on_proposal_decision();
@@ -0,0 +1,45 @@
+-- Reviews and reputation
+-- Users who have a conversation together can rate each other once per
+-- direction per conversation
+
+CREATE TABLE reviews (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    reviewer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reviewee_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    comment TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT unique_review_per_direction UNIQUE (conversation_id, reviewer_id),
+    CONSTRAINT no_self_review CHECK (reviewer_id <> reviewee_id)
+);
+
+CREATE INDEX idx_reviews_reviewee ON reviews(reviewee_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+
+-- Reviews are public to signed-in users (they are the reputation signal)
+CREATE POLICY "Authenticated users can view reviews" ON reviews
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Both reviewer and reviewee must be participants of the conversation
+CREATE POLICY "Participants can review each other" ON reviews
+    FOR INSERT WITH CHECK (
+        auth.uid() = reviewer_id
+        AND EXISTS (
+            SELECT 1 FROM conversations c
+            WHERE c.id = conversation_id
+                AND reviewer_id = ANY(c.participant_ids)
+                AND reviewee_id = ANY(c.participant_ids)
+        )
+    );
+
+-- Aggregated rating per user
+CREATE VIEW user_reputation WITH (security_invoker = true) AS
+SELECT
+    reviewee_id AS user_id,
+    ROUND(AVG(rating), 2)::float AS rating_avg,
+    COUNT(*)::int AS review_count
+FROM reviews
+GROUP BY reviewee_id;
@@ -0,0 +1,13 @@
+-- Editable public profile fields
+-- Set via the update_profile MCP tool / `opengig profile` command
+-- (handle_new_user only syncs name, email and picture from LinkedIn)
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS bio TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS portfolio_links TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS skills TEXT[] NOT NULL DEFAULT '{}';
+
+-- Phone numbers are stored in E.164 (e.g. +14155552671)
+-- NOT VALID so existing rows don't block the migration
+ALTER TABLE users ADD CONSTRAINT users_phone_e164
+    CHECK (phone IS NULL OR phone ~ '^\+[1-9][0-9]{1,14}$') NOT VALID;
@@ -0,0 +1,167 @@
+-- Safety tooling: blocking and reporting
+-- Blocks stop messaging in both directions and hide the blocked user's
+-- listings from the blocker; reports are queued for moderation
+
+CREATE TABLE user_blocks (
+    blocker_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    blocked_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reason TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (blocker_id, blocked_id),
+    CONSTRAINT no_self_block CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX idx_user_blocks_blocked ON user_blocks(blocked_id);
+
+CREATE TABLE reports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    reporter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reported_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    listing_id UUID REFERENCES listings(id) ON DELETE SET NULL,
+    conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+    category TEXT NOT NULL CHECK (category IN ('spam', 'scam', 'harassment', 'inappropriate', 'impersonation', 'other')),
+    details TEXT,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewing', 'resolved', 'dismissed')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ,
+    CONSTRAINT report_has_subject CHECK (reported_user_id IS NOT NULL OR listing_id IS NOT NULL)
+);
+
+-- Moderation queue (processed with the service role)
+CREATE INDEX idx_reports_queue ON reports(status, created_at) WHERE status IN ('open', 'reviewing');
+
+-- Enable RLS
+ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+-- Blocks are private to the blocker
+CREATE POLICY "Users can view own blocks" ON user_blocks
+    FOR SELECT USING (auth.uid() = blocker_id);
+CREATE POLICY "Users can block others" ON user_blocks
+    FOR INSERT WITH CHECK (auth.uid() = blocker_id);
+CREATE POLICY "Users can unblock" ON user_blocks
+    FOR DELETE USING (auth.uid() = blocker_id);
+
+-- Reporters can file reports and see their own; moderation uses the service role
+CREATE POLICY "Users can file reports" ON reports
+    FOR INSERT WITH CHECK (auth.uid() = reporter_id AND status = 'open');
+CREATE POLICY "Users can view own reports" ON reports
+    FOR SELECT USING (auth.uid() = reporter_id);
+
+-- True if any of the given users has blocked another of them.
+-- SECURITY DEFINER so policies can see blocks the caller didn't create.
+CREATE OR REPLACE FUNCTION blocked_between(user_ids UUID[])
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM user_blocks b
+        WHERE b.blocker_id = ANY(user_ids)
+            AND b.blocked_id = ANY(user_ids)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Messages and new conversations are rejected between blocked users
+DROP POLICY IF EXISTS "Users can send messages" ON messages;
+CREATE POLICY "Users can send messages" ON messages
+    FOR INSERT WITH CHECK (
+        auth.uid()::text = sender_id::text
+        AND NOT blocked_between(ARRAY[sender_id, recipient_id])
+    );
+
+DROP POLICY IF EXISTS "Users can create conversations they're part of" ON conversations;
+CREATE POLICY "Users can create conversations they're part of" ON conversations
+    FOR INSERT WITH CHECK (
+        auth.uid()::text = ANY(participant_ids::text[])
+        AND NOT blocked_between(participant_ids)
+    );
+
+-- Blocked users' listings are hidden from the blocker
+DROP POLICY IF EXISTS "Active listings are viewable by everyone" ON listings;
+CREATE POLICY "Active listings are viewable by everyone" ON listings
+    FOR SELECT USING (
+        active = true
+        AND NOT EXISTS (
+            SELECT 1 FROM user_blocks b
+            WHERE b.blocker_id = auth.uid()
+                AND b.blocked_id = listings.user_id
+        )
+    );
+
+-- Saved-search filter shared by the background matcher, pulled out of
+-- check_saved_search_matches (006) so filter changes live in one place.
+-- Mirrors the run_saved_search MCP tool, plus the searcher's blocks.
+CREATE OR REPLACE FUNCTION listing_matches_saved_search(l listings, s saved_searches)
+RETURNS BOOLEAN AS $$
+    SELECT l.type = CASE s.search_type WHEN 'jobs' THEN 'job' ELSE 'available' END
+        AND l.active = true
+        AND l.user_id <> s.user_id
+        AND (l.expires_at IS NULL OR l.expires_at > NOW())
+        AND (NOT COALESCE(s.remote_only, false) OR l.remote = true)
+        AND (COALESCE(s.rate_min, 0) = 0 OR l.rate_max >= s.rate_min)
+        AND (COALESCE(s.rate_max, 0) = 0 OR l.rate_min <= s.rate_max)
+        AND (COALESCE(cardinality(s.skills_filter), 0) = 0 OR l.skills && s.skills_filter)
+        AND (COALESCE(s.location, '') = '' OR l.location ILIKE '%' || s.location || '%')
+        AND NOT EXISTS (
+            SELECT 1 FROM user_blocks b
+            WHERE b.blocker_id = s.user_id
+                AND b.blocked_id = l.user_id
+        );
+$$ LANGUAGE sql STABLE;
+
+-- Background matcher from 006, now filtering with listing_matches_saved_search
+CREATE OR REPLACE FUNCTION check_saved_search_matches()
+RETURNS INTEGER AS $$
+DECLARE
+    s saved_searches%ROWTYPE;
+    run_started TIMESTAMPTZ := NOW();
+    matched_ids UUID[];
+    matched_titles TEXT[];
+    new_notification_id UUID;
+    created_count INTEGER := 0;
+BEGIN
+    FOR s IN SELECT * FROM saved_searches WHERE active = true LOOP
+        SELECT
+            array_agg(l.id ORDER BY l.created_at DESC),
+            array_agg(l.title ORDER BY l.created_at DESC)
+        INTO matched_ids, matched_titles
+        FROM listings l
+        WHERE listing_matches_saved_search(l, s)
+            AND l.created_at > COALESCE(s.last_checked_at, s.created_at)
+            AND l.created_at <= run_started
+            AND NOT EXISTS (
+                SELECT 1 FROM saved_search_matches m
+                WHERE m.saved_search_id = s.id
+                    AND m.listing_id = l.id
+            );
+
+        IF matched_ids IS NOT NULL THEN
+            INSERT INTO notifications (user_id, type, title, body, metadata)
+            VALUES (
+                s.user_id,
+                'new_match',
+                'New matches for "' || s.name || '"',
+                cardinality(matched_ids) ||
+                    CASE WHEN cardinality(matched_ids) = 1 THEN ' new listing matches' ELSE ' new listings match' END ||
+                    ' your saved search: ' ||
+                    array_to_string(matched_titles[1:3], ', ') ||
+                    CASE WHEN cardinality(matched_ids) > 3 THEN ', ...' ELSE '' END,
+                jsonb_build_object(
+                    'saved_search_id', s.id,
+                    'listing_ids', to_jsonb(matched_ids),
+                    'notify_email', COALESCE(s.notify_email, true)
+                )
+            )
+            RETURNING id INTO new_notification_id;
+
+            INSERT INTO saved_search_matches (saved_search_id, listing_id, notification_id)
+            SELECT s.id, unnest(matched_ids), new_notification_id
+            ON CONFLICT DO NOTHING;
+
+            created_count := created_count + 1;
+        END IF;
+
+        UPDATE saved_searches SET last_checked_at = run_started WHERE id = s.id;
+    END LOOP;
+
+    RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,129 @@
+-- Anti-spam: per-sender rate limits on messaging
+-- Enforced by triggers so every client (MCP server, CLI, direct API) is bound.
+-- Violations raise SQLSTATE PT429, which PostgREST returns as HTTP 429 with
+-- the limit described as JSON in "details".
+
+-- Tunable limits (service role only; lower them for local testing)
+CREATE TABLE rate_limits (
+    name TEXT PRIMARY KEY,
+    max_count INTEGER NOT NULL CHECK (max_count > 0),
+    window_interval INTERVAL NOT NULL,
+    description TEXT
+);
+
+INSERT INTO rate_limits (name, max_count, window_interval, description) VALUES
+    ('messages_per_minute', 10, INTERVAL '1 minute', 'Messages a user can send per window'),
+    ('new_conversations_per_day', 20, INTERVAL '1 day', 'Conversations a user can start per window'),
+    ('duplicate_message_recipients', 3, INTERVAL '1 day', 'Distinct recipients that can get the same message per window');
+
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Normalized fingerprint used for duplicate-content detection
+CREATE OR REPLACE FUNCTION message_content_hash(content TEXT)
+RETURNS TEXT AS $$
+    SELECT md5(lower(regexp_replace(btrim(content), '\s+', ' ', 'g')));
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE messages ADD COLUMN content_hash TEXT
+    GENERATED ALWAYS AS (message_content_hash(content)) STORED;
+
+CREATE INDEX idx_messages_sender_recent ON messages(sender_id, created_at DESC);
+CREATE INDEX idx_messages_sender_content ON messages(sender_id, content_hash, created_at DESC);
+
+-- Who started each conversation (for the new-conversation limit)
+ALTER TABLE conversations ADD COLUMN created_by UUID REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid();
+CREATE INDEX idx_conversations_created_by ON conversations(created_by, created_at DESC);
+
+-- Raise the structured rate-limit error for a limit
+CREATE OR REPLACE FUNCTION raise_rate_limited(lim rate_limits, reason TEXT)
+RETURNS void AS $$
+BEGIN
+    RAISE EXCEPTION USING
+        ERRCODE = 'PT429',
+        MESSAGE = reason,
+        DETAIL = json_build_object(
+            'limit', lim.name,
+            'max', lim.max_count,
+            'window_seconds', EXTRACT(EPOCH FROM lim.window_interval)::int
+        )::text,
+        HINT = 'Wait before sending more, or write individual messages instead of copies';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to enforce per-sender message limits
+CREATE OR REPLACE FUNCTION enforce_message_rate_limits()
+RETURNS TRIGGER AS $$
+DECLARE
+    lim rate_limits%ROWTYPE;
+    recent INTEGER;
+BEGIN
+    SELECT * INTO lim FROM rate_limits WHERE name = 'messages_per_minute';
+    IF FOUND THEN
+        SELECT COUNT(*) INTO recent
+        FROM messages
+        WHERE sender_id = NEW.sender_id
+            AND created_at > NOW() - lim.window_interval;
+
+        IF recent >= lim.max_count THEN
+            PERFORM raise_rate_limited(lim, 'You are sending messages too quickly');
+        END IF;
+    END IF;
+
+    -- Short replies ("thanks!") are naturally repeated, so only check longer messages
+    SELECT * INTO lim FROM rate_limits WHERE name = 'duplicate_message_recipients';
+    IF FOUND AND length(btrim(NEW.content)) >= 20 THEN
+        SELECT COUNT(DISTINCT recipient_id) INTO recent
+        FROM messages
+        WHERE sender_id = NEW.sender_id
+            AND content_hash = message_content_hash(NEW.content)
+            AND recipient_id <> NEW.recipient_id
+            AND created_at > NOW() - lim.window_interval;
+
+        IF recent >= lim.max_count THEN
+            PERFORM raise_rate_limited(lim, 'The same message was already sent to too many people');
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger for new messages
+DROP TRIGGER IF EXISTS on_new_message_rate_limit ON messages;
+CREATE TRIGGER on_new_message_rate_limit
+    BEFORE INSERT ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_message_rate_limits();
+
+-- Function to enforce the new-conversation limit
+CREATE OR REPLACE FUNCTION enforce_conversation_rate_limits()
+RETURNS TRIGGER AS $$
+DECLARE
+    lim rate_limits%ROWTYPE;
+    recent INTEGER;
+BEGIN
+    -- Clients can't attribute a conversation to someone else (or no one)
+    NEW.created_by := COALESCE(auth.uid(), NEW.created_by);
+
+    SELECT * INTO lim FROM rate_limits WHERE name = 'new_conversations_per_day';
+    IF FOUND AND NEW.created_by IS NOT NULL THEN
+        SELECT COUNT(*) INTO recent
+        FROM conversations
+        WHERE created_by = NEW.created_by
+            AND created_at > NOW() - lim.window_interval;
+
+        IF recent >= lim.max_count THEN
+            PERFORM raise_rate_limited(lim, 'You have started too many new conversations today');
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger for new conversations
+DROP TRIGGER IF EXISTS on_new_conversation_rate_limit ON conversations;
+CREATE TRIGGER on_new_conversation_rate_limit
+    BEFORE INSERT ON conversations
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_conversation_rate_limits();
@@ -0,0 +1,65 @@
+-- Listing-scoped conversations
+-- A pair of users can now have one thread per listing (plus one general
+-- thread with no listing) instead of a single thread forever
+
+-- The old constraint allowed one conversation per participant array
+ALTER TABLE conversations DROP CONSTRAINT IF EXISTS unique_participants;
+
+-- Sort participant arrays so the same pair always has the same key
+UPDATE conversations
+SET participant_ids = ARRAY(SELECT unnest(participant_ids) ORDER BY 1)
+WHERE participant_ids <> ARRAY(SELECT unnest(participant_ids) ORDER BY 1);
+
+-- Merge threads that now share a key (e.g. [a,b] and [b,a] for the same
+-- listing) into the oldest one
+CREATE TEMP TABLE conversation_merges ON COMMIT DROP AS
+SELECT id, keep_id
+FROM (
+    SELECT
+        id,
+        first_value(id) OVER (
+            PARTITION BY participant_ids, listing_id
+            ORDER BY created_at, id
+        ) AS keep_id
+    FROM conversations
+) ranked
+WHERE id <> keep_id;
+
+UPDATE messages m SET conversation_id = cm.keep_id
+FROM conversation_merges cm WHERE m.conversation_id = cm.id;
+
+UPDATE proposals p SET conversation_id = cm.keep_id
+FROM conversation_merges cm WHERE p.conversation_id = cm.id;
+
+UPDATE reports r SET conversation_id = cm.keep_id
+FROM conversation_merges cm WHERE r.conversation_id = cm.id;
+
+-- A reviewer keeps one review per thread; extra reviews go with the merged thread
+UPDATE reviews rv SET conversation_id = cm.keep_id
+FROM conversation_merges cm
+WHERE rv.conversation_id = cm.id
+    AND NOT EXISTS (
+        SELECT 1 FROM reviews k
+        WHERE k.conversation_id = cm.keep_id
+            AND k.reviewer_id = rv.reviewer_id
+    );
+
+UPDATE conversations c
+SET last_message_at = GREATEST(c.last_message_at, merged.last_message_at)
+FROM (
+    SELECT cm.keep_id, MAX(dup.last_message_at) AS last_message_at
+    FROM conversation_merges cm
+    JOIN conversations dup ON dup.id = cm.id
+    GROUP BY cm.keep_id
+) merged
+WHERE c.id = merged.keep_id;
+
+DELETE FROM conversations c USING conversation_merges cm WHERE c.id = cm.id;
+
+-- One thread per (participants, listing). General threads (NULL listing) are
+-- left out on purpose: deleting a listing sets listing_id to NULL and must not
+-- collide with an existing general thread. send_message reuses the newest one.
+CREATE UNIQUE INDEX unique_participants_listing
+    ON conversations(participant_ids, listing_id);
+
+CREATE INDEX idx_conversations_listing ON conversations(listing_id);
@@ -0,0 +1,132 @@
+-- Semantic search with pgvector
+-- Listings and saved searches carry a 384-dimension embedding, computed by
+-- the embed edge function (see supabase/functions/embed) on insert/update.
+-- hybrid_search_listings blends vector similarity with the full-text rank
+-- from 007 so related terms ("frontend" vs "react") still match.
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+ALTER TABLE listings ADD COLUMN embedding extensions.vector(384);
+ALTER TABLE saved_searches ADD COLUMN embedding extensions.vector(384);
+
+-- Rows still waiting for the embed function
+CREATE INDEX idx_listings_embedding_pending ON listings(created_at) WHERE embedding IS NULL;
+CREATE INDEX idx_saved_searches_embedding_pending ON saved_searches(created_at) WHERE embedding IS NULL;
+
+-- Function to drop stale embeddings when the embedded text changes
+-- (the embed function recomputes rows with a NULL embedding)
+CREATE OR REPLACE FUNCTION clear_stale_listing_embedding()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.title IS DISTINCT FROM OLD.title
+        OR NEW.description IS DISTINCT FROM OLD.description
+        OR NEW.skills IS DISTINCT FROM OLD.skills THEN
+        NEW.embedding := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_listing_embedding_stale ON listings;
+CREATE TRIGGER on_listing_embedding_stale
+    BEFORE UPDATE ON listings
+    FOR EACH ROW
+    EXECUTE FUNCTION clear_stale_listing_embedding();
+
+CREATE OR REPLACE FUNCTION clear_stale_saved_search_embedding()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.query IS DISTINCT FROM OLD.query
+        OR NEW.skills_filter IS DISTINCT FROM OLD.skills_filter THEN
+        NEW.embedding := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_saved_search_embedding_stale ON saved_searches;
+CREATE TRIGGER on_saved_search_embedding_stale
+    BEFORE UPDATE ON saved_searches
+    FOR EACH ROW
+    EXECUTE FUNCTION clear_stale_saved_search_embedding();
+
+-- Active, unexpired listings of one type ranked by a blend of semantic
+-- similarity and full-text rank:
+--   rank = semantic_weight * similarity + (1 - semantic_weight) * text rank
+-- A listing is returned if it matches the full-text query (same rules as
+-- search_listings) or its cosine similarity reaches match_threshold.
+-- With a NULL query_embedding this behaves like search_listings.
+-- The blended score can't use a vector index, so this scans the active
+-- listings of the type; that set stays small for a marketplace.
+-- Runs as the caller, so RLS on listings and users still applies.
+CREATE OR REPLACE FUNCTION hybrid_search_listings(
+    search_query TEXT,
+    query_embedding extensions.vector(384),
+    listing_type TEXT,
+    semantic_weight REAL DEFAULT 0.5,
+    match_threshold REAL DEFAULT 0.5
+)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    type TEXT,
+    title TEXT,
+    description TEXT,
+    skills TEXT[],
+    rate_min INTEGER,
+    rate_max INTEGER,
+    rate_type TEXT,
+    location TEXT,
+    remote BOOLEAN,
+    created_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    active BOOLEAN,
+    "user" JSONB,
+    similarity REAL,
+    rank REAL
+) AS $$
+    SELECT
+        c.id,
+        c.user_id,
+        c.type,
+        c.title,
+        c.description,
+        c.skills,
+        c.rate_min,
+        c.rate_max,
+        c.rate_type,
+        c.location,
+        c.remote,
+        c.created_at,
+        c.expires_at,
+        c.active,
+        jsonb_build_object(
+            'id', u.id,
+            'name', u.name,
+            'headline', u.headline,
+            'linkedin_url', u.linkedin_url
+        ),
+        c.similarity::REAL,
+        (semantic_weight * c.similarity + (1 - semantic_weight) * c.text_rank)::REAL
+    FROM (
+        SELECT
+            l.*,
+            CASE
+                WHEN numnode(q.query) = 0 THEN 0
+                -- Normalization 32 maps rank to rank / (rank + 1)
+                ELSE ts_rank(l.search_vector, q.query, 32)
+            END AS text_rank,
+            numnode(q.query) = 0 OR l.search_vector @@ q.query AS text_match,
+            CASE
+                WHEN query_embedding IS NULL OR l.embedding IS NULL THEN 0
+                ELSE 1 - (l.embedding <=> query_embedding)
+            END AS similarity
+        FROM listings l
+        CROSS JOIN websearch_to_tsquery('english', COALESCE(search_query, '')) AS q(query)
+        WHERE l.type = listing_type
+            AND l.active = true
+            AND (l.expires_at IS NULL OR l.expires_at > NOW())
+    ) c
+    JOIN users u ON u.id = c.user_id
+    WHERE c.text_match OR c.similarity >= match_threshold;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
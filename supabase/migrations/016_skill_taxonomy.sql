@@ -0,0 +1,170 @@
+-- Skill taxonomy
+-- A catalog of canonical skill names with aliases ("React.js", "reactjs")
+-- and parents (typescript under javascript). Skills are normalized to their
+-- canonical name on write, and skill filters expand to aliases and child
+-- skills at search time, so rows written before this migration still match.
+
+CREATE TABLE skills (
+    name TEXT PRIMARY KEY CHECK (name = lower(btrim(name))),
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    parent TEXT REFERENCES skills(name) ON DELETE SET NULL,
+    CHECK (parent IS NULL OR parent <> name)
+);
+
+CREATE INDEX idx_skills_parent ON skills(parent);
+
+-- Catalog is public reference data; only the service role edits it
+ALTER TABLE skills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view skills" ON skills
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Comparison key: case, spacing and punctuation don't matter
+-- ("React.js" -> "reactjs"), but + and # do (c++, c#)
+CREATE OR REPLACE FUNCTION skill_key(skill TEXT)
+RETURNS TEXT AS $$
+    SELECT regexp_replace(lower(skill), '[^a-z0-9+#]', '', 'g');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Canonical name for a skill, or the trimmed lowercase input if it isn't
+-- in the catalog (unknown skills are still allowed)
+CREATE OR REPLACE FUNCTION normalize_skill(skill TEXT)
+RETURNS TEXT AS $$
+    SELECT COALESCE(
+        (
+            SELECT s.name FROM skills s
+            WHERE skill_key(s.name) = skill_key(skill)
+                OR EXISTS (SELECT 1 FROM unnest(s.aliases) a WHERE skill_key(a) = skill_key(skill))
+            ORDER BY skill_key(s.name) = skill_key(skill) DESC, s.name
+            LIMIT 1
+        ),
+        lower(btrim(skill))
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Normalize a skill list: canonical names, blanks and duplicates removed,
+-- original order kept
+CREATE OR REPLACE FUNCTION normalize_skills(skill_list TEXT[])
+RETURNS TEXT[] AS $$
+    SELECT COALESCE(array_agg(skill ORDER BY first_position), '{}')
+    FROM (
+        SELECT normalize_skill(raw) AS skill, MIN(position) AS first_position
+        FROM unnest(skill_list) WITH ORDINALITY AS t(raw, position)
+        WHERE btrim(raw) <> ''
+        GROUP BY 1
+    ) normalized;
+$$ LANGUAGE sql STABLE;
+
+-- Everything a skill filter should match: the normalized skills, their
+-- descendants in the catalog, and the aliases of all of those (for rows
+-- saved before normalization)
+CREATE OR REPLACE FUNCTION expand_skills(skill_list TEXT[])
+RETURNS TEXT[] AS $$
+    WITH RECURSIVE tree(name) AS (
+        SELECT unnest(normalize_skills(skill_list))
+        UNION
+        SELECT s.name FROM skills s JOIN tree t ON s.parent = t.name
+    )
+    SELECT COALESCE(array_agg(DISTINCT term), '{}')
+    FROM (
+        SELECT t.name AS term FROM tree t
+        UNION
+        SELECT lower(a) FROM tree t JOIN skills s ON s.name = t.name, unnest(s.aliases) a
+    ) terms;
+$$ LANGUAGE sql STABLE;
+
+-- Autocomplete from the catalog: skills whose name or an alias starts with
+-- the input, exact matches first
+CREATE OR REPLACE FUNCTION suggest_skills(prefix TEXT, max_results INTEGER DEFAULT 10)
+RETURNS TABLE (name TEXT, parent TEXT, aliases TEXT[], matched TEXT) AS $$
+    SELECT s.name, s.parent, s.aliases, m.matched
+    FROM skills s
+    CROSS JOIN LATERAL (
+        SELECT term AS matched
+        FROM unnest(array_prepend(s.name, s.aliases)) WITH ORDINALITY AS t(term, position)
+        WHERE skill_key(term) LIKE skill_key(prefix) || '%'
+        ORDER BY skill_key(term) = skill_key(prefix) DESC, position
+        LIMIT 1
+    ) m
+    WHERE skill_key(prefix) <> ''
+    ORDER BY skill_key(m.matched) = skill_key(prefix) DESC, length(s.name), s.name
+    LIMIT LEAST(GREATEST(max_results, 1), 50);
+$$ LANGUAGE sql STABLE;
+
+-- Saved-search predicate from 012, now expanding the skill filter
+CREATE OR REPLACE FUNCTION listing_matches_saved_search(l listings, s saved_searches)
+RETURNS BOOLEAN AS $$
+    SELECT l.type = CASE s.search_type WHEN 'jobs' THEN 'job' ELSE 'available' END
+        AND l.active = true
+        AND l.user_id <> s.user_id
+        AND (l.expires_at IS NULL OR l.expires_at > NOW())
+        AND (NOT COALESCE(s.remote_only, false) OR l.remote = true)
+        AND (COALESCE(s.rate_min, 0) = 0 OR l.rate_max >= s.rate_min)
+        AND (COALESCE(s.rate_max, 0) = 0 OR l.rate_min <= s.rate_max)
+        AND (COALESCE(cardinality(s.skills_filter), 0) = 0 OR l.skills && expand_skills(s.skills_filter))
+        AND (COALESCE(s.location, '') = '' OR l.location ILIKE '%' || s.location || '%')
+        AND NOT EXISTS (
+            SELECT 1 FROM user_blocks b
+            WHERE b.blocker_id = s.user_id
+                AND b.blocked_id = l.user_id
+        );
+$$ LANGUAGE sql STABLE;
+
+-- Seed catalog (parents before children)
+INSERT INTO skills (name, aliases, parent) VALUES
+    ('frontend', '{front-end,"front end",ui}', NULL),
+    ('backend', '{back-end,"back end",server-side}', NULL),
+    ('mobile', '{"mobile development"}', NULL),
+    ('devops', '{"dev ops",sre,"site reliability"}', NULL),
+    ('data', '{"data engineering","data science"}', NULL),
+    ('design', '{"ux/ui","ui/ux",ux}', NULL),
+    ('cloud', '{}', 'devops'),
+    ('javascript', '{js,ecmascript,es6}', NULL),
+    ('typescript', '{ts}', 'javascript'),
+    ('python', '{py,python3}', NULL),
+    ('java', '{}', NULL),
+    ('kotlin', '{}', 'java'),
+    ('go', '{golang}', NULL),
+    ('rust', '{rustlang}', NULL),
+    ('ruby', '{}', NULL),
+    ('php', '{}', NULL),
+    ('c#', '{csharp,"c sharp"}', NULL),
+    ('c++', '{cpp,cplusplus}', NULL),
+    ('swift', '{}', 'mobile'),
+    ('sql', '{}', 'data'),
+    ('react', '{react.js,reactjs}', 'frontend'),
+    ('next.js', '{nextjs}', 'react'),
+    ('react native', '{react-native,reactnative}', 'mobile'),
+    ('vue', '{vue.js,vuejs}', 'frontend'),
+    ('angular', '{angularjs,angular.js}', 'frontend'),
+    ('svelte', '{sveltekit}', 'frontend'),
+    ('css', '{css3}', 'frontend'),
+    ('tailwind', '{tailwindcss,"tailwind css"}', 'css'),
+    ('html', '{html5}', 'frontend'),
+    ('node.js', '{node,nodejs}', 'backend'),
+    ('express', '{express.js,expressjs}', 'node.js'),
+    ('django', '{}', 'python'),
+    ('flask', '{}', 'python'),
+    ('fastapi', '{}', 'python'),
+    ('rails', '{"ruby on rails",ror}', 'ruby'),
+    ('laravel', '{}', 'php'),
+    ('spring', '{"spring boot",springboot}', 'java'),
+    ('.net', '{dotnet,asp.net}', 'c#'),
+    ('flutter', '{}', 'mobile'),
+    ('ios', '{}', 'mobile'),
+    ('android', '{}', 'mobile'),
+    ('postgresql', '{postgres,psql}', 'sql'),
+    ('mysql', '{}', 'sql'),
+    ('mongodb', '{mongo}', 'data'),
+    ('redis', '{}', 'backend'),
+    ('graphql', '{gql}', 'backend'),
+    ('supabase', '{}', 'backend'),
+    ('aws', '{"amazon web services"}', 'cloud'),
+    ('gcp', '{"google cloud","google cloud platform"}', 'cloud'),
+    ('azure', '{"microsoft azure"}', 'cloud'),
+    ('docker', '{containers}', 'devops'),
+    ('kubernetes', '{k8s}', 'devops'),
+    ('terraform', '{}', 'devops'),
+    ('machine learning', '{ml}', 'data'),
+    ('llm', '{llms,"large language models","generative ai",genai}', 'machine learning'),
+    ('figma', '{}', 'design');
@@ -0,0 +1,244 @@
+-- Mutual matching between the two sides of the marketplace
+-- Scores 'available' listings against a 'job' listing (and vice versa) so
+-- users get counterpart recommendations for their own listings, on demand
+-- (recommend_for_listing MCP tool) or pushed as 'new_match' notifications
+
+-- Counterparts for a listing, scored 0-1 as a weighted blend of:
+--   skill_score    (50%) share of src's skills the candidate has, counting
+--                        aliases and sub-skills (expand_skills from 016)
+--   rate_score     (20%) 1 when the rate ranges intersect, lower the further
+--                        apart they are, 0.5 when unknown or not comparable
+--   location_score (20%) 1 both remote or same place, 0.5 one side remote or
+--                        unspecified; candidates scoring 0 are left out
+--   recency_score  (10%) decays with candidate age (30-day time constant)
+-- Candidates need at least one skill in common unless src lists none.
+-- Blocks are checked here (not via RLS) so the background job, which runs
+-- without a user, respects them too.
+CREATE OR REPLACE FUNCTION score_listing_matches(src listings)
+RETURNS TABLE (
+    listing_id UUID,
+    score REAL,
+    skill_score REAL,
+    rate_score REAL,
+    location_score REAL,
+    recency_score REAL,
+    matched_skills TEXT[]
+) AS $$
+    WITH wanted AS (
+        SELECT expand_skills(COALESCE(src.skills, '{}')) AS skills
+    ),
+    scored AS (
+        SELECT
+            c.id,
+            m.matched,
+            CASE
+                WHEN COALESCE(cardinality(src.skills), 0) = 0 THEN 0.5
+                ELSE LEAST(cardinality(m.matched)::REAL / cardinality(src.skills), 1)
+            END AS skill_score,
+            CASE
+                WHEN rb.s_lo IS NULL OR rb.c_lo IS NULL THEN 0.5
+                WHEN src.rate_type IN ('hourly', 'fixed')
+                    AND c.rate_type IN ('hourly', 'fixed')
+                    AND src.rate_type <> c.rate_type THEN 0.5
+                WHEN rb.s_lo <= rb.c_hi AND rb.c_lo <= rb.s_hi THEN 1
+                ELSE GREATEST(
+                    0,
+                    1 - (GREATEST(rb.s_lo, rb.c_lo) - LEAST(rb.s_hi, rb.c_hi))::REAL
+                        / GREATEST(rb.s_hi, rb.c_hi, 1)
+                )
+            END AS rate_score,
+            CASE
+                WHEN src.remote AND c.remote THEN 1
+                WHEN COALESCE(src.location, '') <> '' AND COALESCE(c.location, '') <> ''
+                    AND (src.location ILIKE '%' || c.location || '%' OR c.location ILIKE '%' || src.location || '%') THEN 1
+                WHEN src.remote OR c.remote THEN 0.5
+                WHEN COALESCE(src.location, '') = '' OR COALESCE(c.location, '') = '' THEN 0.5
+                ELSE 0
+            END AS location_score,
+            exp(-EXTRACT(EPOCH FROM NOW() - c.created_at) / 86400 / 30) AS recency_score
+        FROM listings c
+        CROSS JOIN wanted w
+        CROSS JOIN LATERAL (
+            SELECT ARRAY(SELECT unnest(c.skills) INTERSECT SELECT unnest(w.skills)) AS matched
+        ) m
+        CROSS JOIN LATERAL (
+            SELECT
+                COALESCE(src.rate_min, src.rate_max) AS s_lo,
+                COALESCE(src.rate_max, src.rate_min) AS s_hi,
+                COALESCE(c.rate_min, c.rate_max) AS c_lo,
+                COALESCE(c.rate_max, c.rate_min) AS c_hi
+        ) rb
+        WHERE c.type = CASE src.type WHEN 'job' THEN 'available' ELSE 'job' END
+            AND c.active = true
+            AND (c.expires_at IS NULL OR c.expires_at > NOW())
+            AND c.user_id <> src.user_id
+            AND (COALESCE(cardinality(src.skills), 0) = 0 OR cardinality(m.matched) > 0)
+            AND NOT blocked_between(ARRAY[src.user_id, c.user_id])
+    )
+    SELECT
+        id,
+        (0.5 * skill_score + 0.2 * rate_score + 0.2 * location_score + 0.1 * recency_score)::REAL,
+        skill_score::REAL,
+        rate_score::REAL,
+        location_score::REAL,
+        recency_score::REAL,
+        matched
+    FROM scored
+    WHERE location_score > 0;
+$$ LANGUAGE sql STABLE;
+
+-- Counterpart listings for one of the caller's own listings, with the
+-- poster embedded as "user". Empty if the listing isn't the caller's.
+-- Runs as the caller, so RLS on listings and users still applies.
+-- Callers order by score and limit with PostgREST.
+CREATE OR REPLACE FUNCTION recommend_for_listing(source_listing_id UUID)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    type TEXT,
+    title TEXT,
+    description TEXT,
+    skills TEXT[],
+    rate_min INTEGER,
+    rate_max INTEGER,
+    rate_type TEXT,
+    location TEXT,
+    remote BOOLEAN,
+    created_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    active BOOLEAN,
+    "user" JSONB,
+    score REAL,
+    skill_score REAL,
+    rate_score REAL,
+    location_score REAL,
+    recency_score REAL,
+    matched_skills TEXT[]
+) AS $$
+    SELECT
+        l.id,
+        l.user_id,
+        l.type,
+        l.title,
+        l.description,
+        l.skills,
+        l.rate_min,
+        l.rate_max,
+        l.rate_type,
+        l.location,
+        l.remote,
+        l.created_at,
+        l.expires_at,
+        l.active,
+        jsonb_build_object(
+            'id', u.id,
+            'name', u.name,
+            'headline', u.headline,
+            'linkedin_url', u.linkedin_url
+        ),
+        m.score,
+        m.skill_score,
+        m.rate_score,
+        m.location_score,
+        m.recency_score,
+        m.matched_skills
+    FROM listings src
+    CROSS JOIN LATERAL score_listing_matches(src) m
+    JOIN listings l ON l.id = m.listing_id
+    JOIN users u ON u.id = l.user_id
+    WHERE src.id = source_listing_id
+        AND src.user_id = auth.uid();
+$$ LANGUAGE sql STABLE;
+
+-- Every (listing, recommended listing) pair already pushed to the owner
+CREATE TABLE listing_recommendations (
+    listing_id UUID NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+    recommended_listing_id UUID NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+    score REAL NOT NULL,
+    notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (listing_id, recommended_listing_id)
+);
+
+CREATE INDEX idx_listing_recommendations_recommended ON listing_recommendations(recommended_listing_id);
+
+-- Enable RLS
+ALTER TABLE listing_recommendations ENABLE ROW LEVEL SECURITY;
+
+-- Users can see recommendations made for their own listings
+CREATE POLICY "Users can view own listing recommendations" ON listing_recommendations
+    FOR SELECT USING (listing_owner(listing_id) = auth.uid());
+
+-- Push each active listing's best new counterparts (score >= min_score, at
+-- most per_listing per run, never the same pair twice) to its owner as one
+-- 'new_match' notification. Returns how many notifications were created.
+-- Optional: send-notifications runs it when RECOMMENDATION_NOTIFICATIONS=true.
+CREATE OR REPLACE FUNCTION push_listing_recommendations(
+    per_listing INTEGER DEFAULT 3,
+    min_score REAL DEFAULT 0.6
+)
+RETURNS INTEGER AS $$
+DECLARE
+    src listings%ROWTYPE;
+    matched_ids UUID[];
+    matched_titles TEXT[];
+    matched_scores REAL[];
+    new_notification_id UUID;
+    created_count INTEGER := 0;
+BEGIN
+    FOR src IN
+        SELECT * FROM listings
+        WHERE active = true
+            AND (expires_at IS NULL OR expires_at > NOW())
+    LOOP
+        SELECT
+            array_agg(top.listing_id ORDER BY top.score DESC),
+            array_agg(top.title ORDER BY top.score DESC),
+            array_agg(top.score ORDER BY top.score DESC)
+        INTO matched_ids, matched_titles, matched_scores
+        FROM (
+            SELECT m.listing_id, m.score, l.title
+            FROM score_listing_matches(src) m
+            JOIN listings l ON l.id = m.listing_id
+            WHERE m.score >= min_score
+                AND NOT EXISTS (
+                    SELECT 1 FROM listing_recommendations r
+                    WHERE r.listing_id = src.id
+                        AND r.recommended_listing_id = m.listing_id
+                )
+            ORDER BY m.score DESC
+            LIMIT per_listing
+        ) top;
+
+        IF matched_ids IS NOT NULL THEN
+            INSERT INTO notifications (user_id, type, title, body, metadata)
+            VALUES (
+                src.user_id,
+                'new_match',
+                'New matches for your listing "' || src.title || '"',
+                CASE
+                    WHEN src.type = 'job' THEN 'Freelancers who fit: '
+                    ELSE 'Jobs that fit: '
+                END || array_to_string(matched_titles, ', '),
+                jsonb_build_object(
+                    'source_listing_id', src.id,
+                    'listing_ids', to_jsonb(matched_ids)
+                )
+            )
+            RETURNING id INTO new_notification_id;
+
+            INSERT INTO listing_recommendations (listing_id, recommended_listing_id, score, notification_id)
+            SELECT src.id, r.listing_id, r.score, new_notification_id
+            FROM unnest(matched_ids, matched_scores) AS r(listing_id, score)
+            ON CONFLICT DO NOTHING;
+
+            created_count := created_count + 1;
+        END IF;
+    END LOOP;
+
+    RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the service role (edge functions, cron) may run the job
+REVOKE EXECUTE ON FUNCTION push_listing_recommendations(INTEGER, REAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,432 @@
+-- Comparable rates across hourly/fixed pricing and currencies
+-- Listings store their currency and, for fixed-price work, an estimated
+-- number of hours. Searches compare an hourly USD equivalent computed with
+-- the local exchange_rates table. Listings without one (negotiable, or fixed
+-- price with no hours estimate) are included or excluded explicitly.
+
+-- USD value of one unit of each currency (service role keeps it current)
+CREATE TABLE exchange_rates (
+    currency TEXT PRIMARY KEY CHECK (currency ~ '^[A-Z]{3}$'),
+    usd_per_unit NUMERIC NOT NULL CHECK (usd_per_unit > 0),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO exchange_rates (currency, usd_per_unit) VALUES
+    ('USD', 1),
+    ('EUR', 1.08),
+    ('GBP', 1.27),
+    ('CAD', 0.73),
+    ('AUD', 0.66),
+    ('NZD', 0.60),
+    ('CHF', 1.13),
+    ('JPY', 0.0067),
+    ('INR', 0.012),
+    ('BRL', 0.18),
+    ('MXN', 0.055),
+    ('PLN', 0.25),
+    ('SEK', 0.095),
+    ('SGD', 0.74),
+    ('ZAR', 0.054);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view exchange rates" ON exchange_rates
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+ALTER TABLE listings ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD' REFERENCES exchange_rates(currency);
+ALTER TABLE listings ADD COLUMN estimated_hours INTEGER CHECK (estimated_hours > 0);
+
+ALTER TABLE listing_revisions ADD COLUMN currency TEXT;
+ALTER TABLE listing_revisions ADD COLUMN estimated_hours INTEGER;
+
+-- Saved-search rate filters are hourly amounts in this currency
+ALTER TABLE saved_searches ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD' REFERENCES exchange_rates(currency);
+ALTER TABLE saved_searches ADD COLUMN include_negotiable BOOLEAN NOT NULL DEFAULT true;
+
+-- Hourly USD equivalent of a rate amount, or NULL when it can't be
+-- compared: negotiable, fixed price without an hours estimate, or an
+-- unknown currency. Listings with no rate_type are treated as hourly.
+CREATE OR REPLACE FUNCTION to_hourly_usd(amount NUMERIC, kind TEXT, amount_currency TEXT, hours INTEGER)
+RETURNS NUMERIC AS $$
+    SELECT round(
+        CASE
+            WHEN kind = 'negotiable' THEN NULL
+            WHEN kind = 'fixed' THEN amount * x.usd_per_unit / NULLIF(hours, 0)
+            ELSE amount * x.usd_per_unit
+        END,
+        2
+    )
+    FROM exchange_rates x
+    WHERE x.currency = amount_currency;
+$$ LANGUAGE sql STABLE;
+
+-- Convert an amount in a currency to USD (NULL for unknown currencies)
+CREATE OR REPLACE FUNCTION to_usd(amount NUMERIC, amount_currency TEXT)
+RETURNS NUMERIC AS $$
+    SELECT amount * x.usd_per_unit FROM exchange_rates x WHERE x.currency = amount_currency;
+$$ LANGUAGE sql STABLE;
+
+-- Computed columns (PostgREST exposes these as listings.hourly_rate_min /
+-- hourly_rate_max for select and filters). A one-sided range uses its
+-- single bound for both ends.
+CREATE OR REPLACE FUNCTION hourly_rate_min(l listings)
+RETURNS NUMERIC AS $$
+    SELECT to_hourly_usd(COALESCE(l.rate_min, l.rate_max), l.rate_type, l.currency, l.estimated_hours);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION hourly_rate_max(l listings)
+RETURNS NUMERIC AS $$
+    SELECT to_hourly_usd(COALESCE(l.rate_max, l.rate_min), l.rate_type, l.currency, l.estimated_hours);
+$$ LANGUAGE sql STABLE;
+
+-- Revision trigger from 008, now also tracking currency and estimated_hours
+CREATE OR REPLACE FUNCTION record_listing_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+    changed TEXT[] := '{}';
+BEGIN
+    IF NEW.title IS DISTINCT FROM OLD.title THEN changed := array_append(changed, 'title'); END IF;
+    IF NEW.description IS DISTINCT FROM OLD.description THEN changed := array_append(changed, 'description'); END IF;
+    IF NEW.skills IS DISTINCT FROM OLD.skills THEN changed := array_append(changed, 'skills'); END IF;
+    IF NEW.rate_min IS DISTINCT FROM OLD.rate_min THEN changed := array_append(changed, 'rate_min'); END IF;
+    IF NEW.rate_max IS DISTINCT FROM OLD.rate_max THEN changed := array_append(changed, 'rate_max'); END IF;
+    IF NEW.rate_type IS DISTINCT FROM OLD.rate_type THEN changed := array_append(changed, 'rate_type'); END IF;
+    IF NEW.currency IS DISTINCT FROM OLD.currency THEN changed := array_append(changed, 'currency'); END IF;
+    IF NEW.estimated_hours IS DISTINCT FROM OLD.estimated_hours THEN changed := array_append(changed, 'estimated_hours'); END IF;
+    IF NEW.location IS DISTINCT FROM OLD.location THEN changed := array_append(changed, 'location'); END IF;
+    IF NEW.remote IS DISTINCT FROM OLD.remote THEN changed := array_append(changed, 'remote'); END IF;
+
+    IF cardinality(changed) > 0 THEN
+        INSERT INTO listing_revisions (
+            listing_id, revision, edited_by, changed_fields,
+            title, description, skills, rate_min, rate_max, rate_type,
+            currency, estimated_hours, location, remote
+        )
+        SELECT
+            OLD.id,
+            COALESCE(MAX(r.revision), 0) + 1,
+            auth.uid(),
+            changed,
+            OLD.title, OLD.description, OLD.skills, OLD.rate_min, OLD.rate_max, OLD.rate_type,
+            OLD.currency, OLD.estimated_hours, OLD.location, OLD.remote
+        FROM listing_revisions r
+        WHERE r.listing_id = OLD.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Saved-search predicate from 016, now comparing hourly USD equivalents
+CREATE OR REPLACE FUNCTION listing_matches_saved_search(l listings, s saved_searches)
+RETURNS BOOLEAN AS $$
+    SELECT l.type = CASE s.search_type WHEN 'jobs' THEN 'job' ELSE 'available' END
+        AND l.active = true
+        AND l.user_id <> s.user_id
+        AND (l.expires_at IS NULL OR l.expires_at > NOW())
+        AND (NOT COALESCE(s.remote_only, false) OR l.remote = true)
+        AND (
+            (COALESCE(s.rate_min, 0) = 0 AND COALESCE(s.rate_max, 0) = 0)
+            OR (hourly_rate_max(l) IS NULL AND s.include_negotiable)
+            OR (
+                (COALESCE(s.rate_min, 0) = 0 OR hourly_rate_max(l) >= to_usd(s.rate_min, s.currency))
+                AND (COALESCE(s.rate_max, 0) = 0 OR hourly_rate_min(l) <= to_usd(s.rate_max, s.currency))
+            )
+        )
+        AND (COALESCE(cardinality(s.skills_filter), 0) = 0 OR l.skills && expand_skills(s.skills_filter))
+        AND (COALESCE(s.location, '') = '' OR l.location ILIKE '%' || s.location || '%')
+        AND NOT EXISTS (
+            SELECT 1 FROM user_blocks b
+            WHERE b.blocker_id = s.user_id
+                AND b.blocked_id = l.user_id
+        );
+$$ LANGUAGE sql STABLE;
+
+-- Recommendation scoring from 017, with rate_score comparing hourly USD
+-- equivalents (0.5 when either side has none)
+CREATE OR REPLACE FUNCTION score_listing_matches(src listings)
+RETURNS TABLE (
+    listing_id UUID,
+    score REAL,
+    skill_score REAL,
+    rate_score REAL,
+    location_score REAL,
+    recency_score REAL,
+    matched_skills TEXT[]
+) AS $$
+    WITH wanted AS (
+        SELECT
+            expand_skills(COALESCE(src.skills, '{}')) AS skills,
+            hourly_rate_min(src) AS s_lo,
+            hourly_rate_max(src) AS s_hi
+    ),
+    scored AS (
+        SELECT
+            c.id,
+            m.matched,
+            CASE
+                WHEN COALESCE(cardinality(src.skills), 0) = 0 THEN 0.5
+                ELSE LEAST(cardinality(m.matched)::REAL / cardinality(src.skills), 1)
+            END AS skill_score,
+            CASE
+                WHEN w.s_lo IS NULL OR rb.c_lo IS NULL THEN 0.5
+                WHEN w.s_lo <= rb.c_hi AND rb.c_lo <= w.s_hi THEN 1
+                ELSE GREATEST(
+                    0,
+                    1 - (GREATEST(w.s_lo, rb.c_lo) - LEAST(w.s_hi, rb.c_hi))
+                        / GREATEST(w.s_hi, rb.c_hi, 1)
+                )
+            END AS rate_score,
+            CASE
+                WHEN src.remote AND c.remote THEN 1
+                WHEN COALESCE(src.location, '') <> '' AND COALESCE(c.location, '') <> ''
+                    AND (src.location ILIKE '%' || c.location || '%' OR c.location ILIKE '%' || src.location || '%') THEN 1
+                WHEN src.remote OR c.remote THEN 0.5
+                WHEN COALESCE(src.location, '') = '' OR COALESCE(c.location, '') = '' THEN 0.5
+                ELSE 0
+            END AS location_score,
+            exp(-EXTRACT(EPOCH FROM NOW() - c.created_at) / 86400 / 30) AS recency_score
+        FROM listings c
+        CROSS JOIN wanted w
+        CROSS JOIN LATERAL (
+            SELECT ARRAY(SELECT unnest(c.skills) INTERSECT SELECT unnest(w.skills)) AS matched
+        ) m
+        CROSS JOIN LATERAL (
+            SELECT hourly_rate_min(c) AS c_lo, hourly_rate_max(c) AS c_hi
+        ) rb
+        WHERE c.type = CASE src.type WHEN 'job' THEN 'available' ELSE 'job' END
+            AND c.active = true
+            AND (c.expires_at IS NULL OR c.expires_at > NOW())
+            AND c.user_id <> src.user_id
+            AND (COALESCE(cardinality(src.skills), 0) = 0 OR cardinality(m.matched) > 0)
+            AND NOT blocked_between(ARRAY[src.user_id, c.user_id])
+    )
+    SELECT
+        id,
+        (0.5 * skill_score + 0.2 * rate_score + 0.2 * location_score + 0.1 * recency_score)::REAL,
+        skill_score::REAL,
+        rate_score::REAL,
+        location_score::REAL,
+        recency_score::REAL,
+        matched
+    FROM scored
+    WHERE location_score > 0;
+$$ LANGUAGE sql STABLE;
+
+-- Search RPCs from 007/015 and recommend_for_listing from 017 now also
+-- return currency, estimated_hours and the hourly USD range so callers can
+-- filter on comparable rates. Return types change, so drop and recreate.
+DROP FUNCTION IF EXISTS search_listings(TEXT, TEXT);
+DROP FUNCTION IF EXISTS hybrid_search_listings(TEXT, extensions.vector, TEXT, REAL, REAL);
+DROP FUNCTION IF EXISTS recommend_for_listing(UUID);
+
+CREATE OR REPLACE FUNCTION search_listings(search_query TEXT, listing_type TEXT)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    type TEXT,
+    title TEXT,
+    description TEXT,
+    skills TEXT[],
+    rate_min INTEGER,
+    rate_max INTEGER,
+    rate_type TEXT,
+    currency TEXT,
+    estimated_hours INTEGER,
+    hourly_rate_min NUMERIC,
+    hourly_rate_max NUMERIC,
+    location TEXT,
+    remote BOOLEAN,
+    created_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    active BOOLEAN,
+    "user" JSONB,
+    rank REAL
+) AS $$
+    SELECT
+        l.id,
+        l.user_id,
+        l.type,
+        l.title,
+        l.description,
+        l.skills,
+        l.rate_min,
+        l.rate_max,
+        l.rate_type,
+        l.currency,
+        l.estimated_hours,
+        hourly_rate_min(l),
+        hourly_rate_max(l),
+        l.location,
+        l.remote,
+        l.created_at,
+        l.expires_at,
+        l.active,
+        jsonb_build_object(
+            'id', u.id,
+            'name', u.name,
+            'headline', u.headline,
+            'linkedin_url', u.linkedin_url
+        ),
+        CASE
+            WHEN numnode(q.query) = 0 THEN 0
+            -- Normalization 32 maps rank to rank / (rank + 1)
+            ELSE ts_rank(l.search_vector, q.query, 32)
+        END
+    FROM listings l
+    JOIN users u ON u.id = l.user_id
+    CROSS JOIN websearch_to_tsquery('english', COALESCE(search_query, '')) AS q(query)
+    WHERE l.type = listing_type
+        AND l.active = true
+        AND (l.expires_at IS NULL OR l.expires_at > NOW())
+        AND (numnode(q.query) = 0 OR l.search_vector @@ q.query);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION hybrid_search_listings(
+    search_query TEXT,
+    query_embedding extensions.vector(384),
+    listing_type TEXT,
+    semantic_weight REAL DEFAULT 0.5,
+    match_threshold REAL DEFAULT 0.5
+)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    type TEXT,
+    title TEXT,
+    description TEXT,
+    skills TEXT[],
+    rate_min INTEGER,
+    rate_max INTEGER,
+    rate_type TEXT,
+    currency TEXT,
+    estimated_hours INTEGER,
+    hourly_rate_min NUMERIC,
+    hourly_rate_max NUMERIC,
+    location TEXT,
+    remote BOOLEAN,
+    created_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    active BOOLEAN,
+    "user" JSONB,
+    similarity REAL,
+    rank REAL
+) AS $$
+    SELECT
+        c.id,
+        c.user_id,
+        c.type,
+        c.title,
+        c.description,
+        c.skills,
+        c.rate_min,
+        c.rate_max,
+        c.rate_type,
+        c.currency,
+        c.estimated_hours,
+        c.hourly_min,
+        c.hourly_max,
+        c.location,
+        c.remote,
+        c.created_at,
+        c.expires_at,
+        c.active,
+        jsonb_build_object(
+            'id', u.id,
+            'name', u.name,
+            'headline', u.headline,
+            'linkedin_url', u.linkedin_url
+        ),
+        c.similarity::REAL,
+        (semantic_weight * c.similarity + (1 - semantic_weight) * c.text_rank)::REAL
+    FROM (
+        SELECT
+            l.*,
+            hourly_rate_min(l) AS hourly_min,
+            hourly_rate_max(l) AS hourly_max,
+            CASE
+                WHEN numnode(q.query) = 0 THEN 0
+                -- Normalization 32 maps rank to rank / (rank + 1)
+                ELSE ts_rank(l.search_vector, q.query, 32)
+            END AS text_rank,
+            numnode(q.query) = 0 OR l.search_vector @@ q.query AS text_match,
+            CASE
+                WHEN query_embedding IS NULL OR l.embedding IS NULL THEN 0
+                ELSE 1 - (l.embedding <=> query_embedding)
+            END AS similarity
+        FROM listings l
+        CROSS JOIN websearch_to_tsquery('english', COALESCE(search_query, '')) AS q(query)
+        WHERE l.type = listing_type
+            AND l.active = true
+            AND (l.expires_at IS NULL OR l.expires_at > NOW())
+    ) c
+    JOIN users u ON u.id = c.user_id
+    WHERE c.text_match OR c.similarity >= match_threshold;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION recommend_for_listing(source_listing_id UUID)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    type TEXT,
+    title TEXT,
+    description TEXT,
+    skills TEXT[],
+    rate_min INTEGER,
+    rate_max INTEGER,
+    rate_type TEXT,
+    currency TEXT,
+    estimated_hours INTEGER,
+    hourly_rate_min NUMERIC,
+    hourly_rate_max NUMERIC,
+    location TEXT,
+    remote BOOLEAN,
+    created_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    active BOOLEAN,
+    "user" JSONB,
+    score REAL,
+    skill_score REAL,
+    rate_score REAL,
+    location_score REAL,
+    recency_score REAL,
+    matched_skills TEXT[]
+) AS $$
+    SELECT
+        l.id,
+        l.user_id,
+        l.type,
+        l.title,
+        l.description,
+        l.skills,
+        l.rate_min,
+        l.rate_max,
+        l.rate_type,
+        l.currency,
+        l.estimated_hours,
+        hourly_rate_min(l),
+        hourly_rate_max(l),
+        l.location,
+        l.remote,
+        l.created_at,
+        l.expires_at,
+        l.active,
+        jsonb_build_object(
+            'id', u.id,
+            'name', u.name,
+            'headline', u.headline,
+            'linkedin_url', u.linkedin_url
+        ),
+        m.score,
+        m.skill_score,
+        m.rate_score,
+        m.location_score,
+        m.recency_score,
+        m.matched_skills
+    FROM listings src
+    CROSS JOIN LATERAL score_listing_matches(src) m
+    JOIN listings l ON l.id = m.listing_id
+    JOIN users u ON u.id = l.user_id
+    WHERE src.id = source_listing_id
+        AND src.user_id = auth.uid();
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,319 @@
+-- Structured locations and timezone-aware filtering
+-- The free-text location stays for display; country/region/city and
+-- coordinates are geocoded from it by the client with a bundled offline
+-- gazetteer (src/lib/geo.ts). A timezone plus an overlap window lets remote
+-- work be limited to "within ±3 hours of America/New_York".
+
+ALTER TABLE listings ADD COLUMN country TEXT CHECK (country ~ '^[A-Z]{2}$');
+ALTER TABLE listings ADD COLUMN region TEXT;
+ALTER TABLE listings ADD COLUMN city TEXT;
+ALTER TABLE listings ADD COLUMN latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90);
+ALTER TABLE listings ADD COLUMN longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180);
+ALTER TABLE listings ADD COLUMN timezone TEXT;
+-- Maximum hours between the poster's timezone and a counterpart's
+ALTER TABLE listings ADD COLUMN timezone_window_hours NUMERIC CHECK (timezone_window_hours BETWEEN 0 AND 12);
+
+CREATE INDEX idx_listings_country ON listings(country) WHERE country IS NOT NULL;
+
+ALTER TABLE saved_searches ADD COLUMN country TEXT CHECK (country ~ '^[A-Z]{2}$');
+ALTER TABLE saved_searches ADD COLUMN region TEXT;
+ALTER TABLE saved_searches ADD COLUMN city TEXT;
+ALTER TABLE saved_searches ADD COLUMN latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90);
+ALTER TABLE saved_searches ADD COLUMN longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180);
+ALTER TABLE saved_searches ADD COLUMN radius_km NUMERIC CHECK (radius_km > 0);
+ALTER TABLE saved_searches ADD COLUMN timezone TEXT;
+ALTER TABLE saved_searches ADD COLUMN timezone_window_hours NUMERIC CHECK (timezone_window_hours BETWEEN 0 AND 12);
+
+-- Great-circle distance in kilometres (haversine)
+CREATE OR REPLACE FUNCTION distance_km(
+    lat1 DOUBLE PRECISION,
+    lng1 DOUBLE PRECISION,
+    lat2 DOUBLE PRECISION,
+    lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+    SELECT 2 * 6371 * asin(LEAST(1, sqrt(
+        power(sin(radians(lat2 - lat1) / 2), 2)
+        + cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+    )));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Current UTC offset of an IANA timezone in hours (NULL if unknown)
+CREATE OR REPLACE FUNCTION utc_offset_hours(tz TEXT)
+RETURNS NUMERIC AS $$
+BEGIN
+    RETURN EXTRACT(EPOCH FROM (NOW() AT TIME ZONE tz) - (NOW() AT TIME ZONE 'UTC')) / 3600;
+EXCEPTION WHEN invalid_parameter_value THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Hours between two timezones right now, the short way around the clock
+CREATE OR REPLACE FUNCTION timezone_diff_hours(tz1 TEXT, tz2 TEXT)
+RETURNS NUMERIC AS $$
+    SELECT LEAST(d, 24 - d)
+    FROM (SELECT abs(utc_offset_hours(tz1) - utc_offset_hours(tz2)) AS d) diff;
+$$ LANGUAGE sql STABLE;
+
+-- Location filter: within radius_km of a point when one is given, else the
+-- same country (and region/city when given). Listings without the needed
+-- structured fields don't match a location filter.
+CREATE OR REPLACE FUNCTION listing_in_area(
+    l listings,
+    area_country TEXT,
+    area_region TEXT,
+    area_city TEXT,
+    area_latitude DOUBLE PRECISION,
+    area_longitude DOUBLE PRECISION,
+    area_radius_km NUMERIC
+)
+RETURNS BOOLEAN AS $$
+    SELECT CASE
+        WHEN area_radius_km IS NOT NULL AND area_latitude IS NOT NULL AND area_longitude IS NOT NULL THEN
+            l.latitude IS NOT NULL
+            AND distance_km(area_latitude, area_longitude, l.latitude, l.longitude) <= area_radius_km
+        WHEN area_country IS NOT NULL THEN
+            l.country = area_country
+            AND (area_region IS NULL OR l.region = area_region)
+            AND (area_city IS NULL OR l.city = area_city)
+        ELSE true
+    END;
+$$ LANGUAGE sql STABLE;
+
+-- Timezone filter: the listing's timezone is within window_hours of tz, and
+-- tz is within the listing's own window if it set one. Listings without a
+-- timezone don't match a timezone filter.
+CREATE OR REPLACE FUNCTION listing_timezone_overlaps(l listings, tz TEXT, window_hours NUMERIC)
+RETURNS BOOLEAN AS $$
+    SELECT CASE
+        WHEN tz IS NULL OR window_hours IS NULL THEN true
+        ELSE COALESCE(
+            timezone_diff_hours(l.timezone, tz) <= LEAST(window_hours, COALESCE(l.timezone_window_hours, 12)),
+            false
+        )
+    END;
+$$ LANGUAGE sql STABLE;
+
+-- Saved-search predicate from 018, now using structured location and
+-- timezone filters (free-text ILIKE only for searches saved without them)
+CREATE OR REPLACE FUNCTION listing_matches_saved_search(l listings, s saved_searches)
+RETURNS BOOLEAN AS $$
+    SELECT l.type = CASE s.search_type WHEN 'jobs' THEN 'job' ELSE 'available' END
+        AND l.active = true
+        AND l.user_id <> s.user_id
+        AND (l.expires_at IS NULL OR l.expires_at > NOW())
+        AND (NOT COALESCE(s.remote_only, false) OR l.remote = true)
+        AND (
+            (COALESCE(s.rate_min, 0) = 0 AND COALESCE(s.rate_max, 0) = 0)
+            OR (hourly_rate_max(l) IS NULL AND s.include_negotiable)
+            OR (
+                (COALESCE(s.rate_min, 0) = 0 OR hourly_rate_max(l) >= to_usd(s.rate_min, s.currency))
+                AND (COALESCE(s.rate_max, 0) = 0 OR hourly_rate_min(l) <= to_usd(s.rate_max, s.currency))
+            )
+        )
+        AND (COALESCE(cardinality(s.skills_filter), 0) = 0 OR l.skills && expand_skills(s.skills_filter))
+        AND CASE
+            WHEN s.country IS NOT NULL OR s.radius_km IS NOT NULL THEN
+                listing_in_area(l, s.country, s.region, s.city, s.latitude, s.longitude, s.radius_km)
+            ELSE COALESCE(s.location, '') = '' OR l.location ILIKE '%' || s.location || '%'
+        END
+        AND listing_timezone_overlaps(l, s.timezone, s.timezone_window_hours)
+        AND NOT EXISTS (
+            SELECT 1 FROM user_blocks b
+            WHERE b.blocker_id = s.user_id
+                AND b.blocked_id = l.user_id
+        );
+$$ LANGUAGE sql STABLE;
+
+-- Search RPCs from 018 gain optional area (near_lat/near_lng + within_km)
+-- and timezone (overlap_timezone + max_timezone_diff_hours) filters, and
+-- return the structured location plus distance_km from the search point.
+-- Signatures change, so drop and recreate.
+DROP FUNCTION IF EXISTS search_listings(TEXT, TEXT);
+DROP FUNCTION IF EXISTS hybrid_search_listings(TEXT, extensions.vector, TEXT, REAL, REAL);
+
+CREATE OR REPLACE FUNCTION search_listings(
+    search_query TEXT,
+    listing_type TEXT,
+    near_lat DOUBLE PRECISION DEFAULT NULL,
+    near_lng DOUBLE PRECISION DEFAULT NULL,
+    within_km NUMERIC DEFAULT NULL,
+    overlap_timezone TEXT DEFAULT NULL,
+    max_timezone_diff_hours NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    type TEXT,
+    title TEXT,
+    description TEXT,
+    skills TEXT[],
+    rate_min INTEGER,
+    rate_max INTEGER,
+    rate_type TEXT,
+    currency TEXT,
+    estimated_hours INTEGER,
+    hourly_rate_min NUMERIC,
+    hourly_rate_max NUMERIC,
+    location TEXT,
+    country TEXT,
+    region TEXT,
+    city TEXT,
+    timezone TEXT,
+    timezone_window_hours NUMERIC,
+    distance_km DOUBLE PRECISION,
+    remote BOOLEAN,
+    created_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    active BOOLEAN,
+    "user" JSONB,
+    rank REAL
+) AS $$
+    SELECT
+        l.id,
+        l.user_id,
+        l.type,
+        l.title,
+        l.description,
+        l.skills,
+        l.rate_min,
+        l.rate_max,
+        l.rate_type,
+        l.currency,
+        l.estimated_hours,
+        hourly_rate_min(l),
+        hourly_rate_max(l),
+        l.location,
+        l.country,
+        l.region,
+        l.city,
+        l.timezone,
+        l.timezone_window_hours,
+        distance_km(near_lat, near_lng, l.latitude, l.longitude),
+        l.remote,
+        l.created_at,
+        l.expires_at,
+        l.active,
+        jsonb_build_object(
+            'id', u.id,
+            'name', u.name,
+            'headline', u.headline,
+            'linkedin_url', u.linkedin_url
+        ),
+        CASE
+            WHEN numnode(q.query) = 0 THEN 0
+            -- Normalization 32 maps rank to rank / (rank + 1)
+            ELSE ts_rank(l.search_vector, q.query, 32)
+        END
+    FROM listings l
+    JOIN users u ON u.id = l.user_id
+    CROSS JOIN websearch_to_tsquery('english', COALESCE(search_query, '')) AS q(query)
+    WHERE l.type = listing_type
+        AND l.active = true
+        AND (l.expires_at IS NULL OR l.expires_at > NOW())
+        AND (numnode(q.query) = 0 OR l.search_vector @@ q.query)
+        AND listing_in_area(l, NULL, NULL, NULL, near_lat, near_lng, within_km)
+        AND listing_timezone_overlaps(l, overlap_timezone, max_timezone_diff_hours);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION hybrid_search_listings(
+    search_query TEXT,
+    query_embedding extensions.vector(384),
+    listing_type TEXT,
+    semantic_weight REAL DEFAULT 0.5,
+    match_threshold REAL DEFAULT 0.5,
+    near_lat DOUBLE PRECISION DEFAULT NULL,
+    near_lng DOUBLE PRECISION DEFAULT NULL,
+    within_km NUMERIC DEFAULT NULL,
+    overlap_timezone TEXT DEFAULT NULL,
+    max_timezone_diff_hours NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    type TEXT,
+    title TEXT,
+    description TEXT,
+    skills TEXT[],
+    rate_min INTEGER,
+    rate_max INTEGER,
+    rate_type TEXT,
+    currency TEXT,
+    estimated_hours INTEGER,
+    hourly_rate_min NUMERIC,
+    hourly_rate_max NUMERIC,
+    location TEXT,
+    country TEXT,
+    region TEXT,
+    city TEXT,
+    timezone TEXT,
+    timezone_window_hours NUMERIC,
+    distance_km DOUBLE PRECISION,
+    remote BOOLEAN,
+    created_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    active BOOLEAN,
+    "user" JSONB,
+    similarity REAL,
+    rank REAL
+) AS $$
+    SELECT
+        c.id,
+        c.user_id,
+        c.type,
+        c.title,
+        c.description,
+        c.skills,
+        c.rate_min,
+        c.rate_max,
+        c.rate_type,
+        c.currency,
+        c.estimated_hours,
+        c.hourly_min,
+        c.hourly_max,
+        c.location,
+        c.country,
+        c.region,
+        c.city,
+        c.timezone,
+        c.timezone_window_hours,
+        c.distance,
+        c.remote,
+        c.created_at,
+        c.expires_at,
+        c.active,
+        jsonb_build_object(
+            'id', u.id,
+            'name', u.name,
+            'headline', u.headline,
+            'linkedin_url', u.linkedin_url
+        ),
+        c.similarity::REAL,
+        (semantic_weight * c.similarity + (1 - semantic_weight) * c.text_rank)::REAL
+    FROM (
+        SELECT
+            l.*,
+            hourly_rate_min(l) AS hourly_min,
+            hourly_rate_max(l) AS hourly_max,
+            distance_km(near_lat, near_lng, l.latitude, l.longitude) AS distance,
+            CASE
+                WHEN numnode(q.query) = 0 THEN 0
+                -- Normalization 32 maps rank to rank / (rank + 1)
+                ELSE ts_rank(l.search_vector, q.query, 32)
+            END AS text_rank,
+            numnode(q.query) = 0 OR l.search_vector @@ q.query AS text_match,
+            CASE
+                WHEN query_embedding IS NULL OR l.embedding IS NULL THEN 0
+                ELSE 1 - (l.embedding <=> query_embedding)
+            END AS similarity
+        FROM listings l
+        CROSS JOIN websearch_to_tsquery('english', COALESCE(search_query, '')) AS q(query)
+        WHERE l.type = listing_type
+            AND l.active = true
+            AND (l.expires_at IS NULL OR l.expires_at > NOW())
+            AND listing_in_area(l, NULL, NULL, NULL, near_lat, near_lng, within_km)
+            AND listing_timezone_overlaps(l, overlap_timezone, max_timezone_diff_hours)
+    ) c
+    JOIN users u ON u.id = c.user_id
+    WHERE c.text_match OR c.similarity >= match_threshold;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
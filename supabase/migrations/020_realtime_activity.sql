@@ -0,0 +1,14 @@
+-- Realtime streaming of messages and notifications
+-- The MCP server subscribes to inserts for the signed-in user (wait_for_activity).
+-- Realtime checks the existing SELECT policies before delivering a row, so
+-- users only receive messages in their conversations and their own notifications.
+
+DO $$
+BEGIN
+    -- Present on hosted projects and `supabase start`; create it for plain Postgres
+    IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        CREATE PUBLICATION supabase_realtime;
+    END IF;
+END $$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE messages, notifications;
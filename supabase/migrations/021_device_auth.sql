@@ -0,0 +1,23 @@
+-- Device-code login for headless machines (`opengig auth --headless`)
+-- The CLI starts a request and polls the device-auth edge function; the user
+-- signs in on another device with the short user code, and the browser hands
+-- its session to the function, which releases it to the polling CLI once.
+-- Only the edge function (service role) touches this table.
+
+CREATE TABLE device_auth_requests (
+    -- SHA-256 of the device code; the code itself is only known to the CLI
+    device_code_hash TEXT PRIMARY KEY,
+    user_code TEXT NOT NULL UNIQUE,
+    user_id UUID,
+    access_token TEXT,
+    refresh_token TEXT,
+    approved_at TIMESTAMPTZ,
+    last_polled_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_device_auth_requests_expires ON device_auth_requests(expires_at);
+
+-- No policies: anon and authenticated roles get nothing
+ALTER TABLE device_auth_requests ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,68 @@
+-- Separate watermark for background saved-search notifications
+-- check_saved_search_matches used last_checked_at, which run_saved_search
+-- also moves forward, so listings posted between the last background run
+-- and a manual run were never notified. The matcher now owns
+-- last_notified_at; last_checked_at only records manual runs.
+
+ALTER TABLE saved_searches ADD COLUMN last_notified_at TIMESTAMPTZ;
+
+UPDATE saved_searches SET last_notified_at = last_checked_at;
+
+-- Background matcher from 012, reading and advancing last_notified_at
+CREATE OR REPLACE FUNCTION check_saved_search_matches()
+RETURNS INTEGER AS $$
+DECLARE
+    s saved_searches%ROWTYPE;
+    run_started TIMESTAMPTZ := NOW();
+    matched_ids UUID[];
+    matched_titles TEXT[];
+    new_notification_id UUID;
+    created_count INTEGER := 0;
+BEGIN
+    FOR s IN SELECT * FROM saved_searches WHERE active = true LOOP
+        SELECT
+            array_agg(l.id ORDER BY l.created_at DESC),
+            array_agg(l.title ORDER BY l.created_at DESC)
+        INTO matched_ids, matched_titles
+        FROM listings l
+        WHERE listing_matches_saved_search(l, s)
+            AND l.created_at > COALESCE(s.last_notified_at, s.created_at)
+            AND l.created_at <= run_started
+            AND NOT EXISTS (
+                SELECT 1 FROM saved_search_matches m
+                WHERE m.saved_search_id = s.id
+                    AND m.listing_id = l.id
+            );
+
+        IF matched_ids IS NOT NULL THEN
+            INSERT INTO notifications (user_id, type, title, body, metadata)
+            VALUES (
+                s.user_id,
+                'new_match',
+                'New matches for "' || s.name || '"',
+                cardinality(matched_ids) ||
+                    CASE WHEN cardinality(matched_ids) = 1 THEN ' new listing matches' ELSE ' new listings match' END ||
+                    ' your saved search: ' ||
+                    array_to_string(matched_titles[1:3], ', ') ||
+                    CASE WHEN cardinality(matched_ids) > 3 THEN ', ...' ELSE '' END,
+                jsonb_build_object(
+                    'saved_search_id', s.id,
+                    'listing_ids', to_jsonb(matched_ids),
+                    'notify_email', COALESCE(s.notify_email, true)
+                )
+            )
+            RETURNING id INTO new_notification_id;
+
+            INSERT INTO saved_search_matches (saved_search_id, listing_id, notification_id)
+            SELECT s.id, unnest(matched_ids), new_notification_id
+            ON CONFLICT DO NOTHING;
+
+            created_count := created_count + 1;
+        END IF;
+
+        UPDATE saved_searches SET last_notified_at = run_started WHERE id = s.id;
+    END LOOP;
+
+    RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
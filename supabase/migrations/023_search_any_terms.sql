@@ -0,0 +1,202 @@
+-- Natural-language keyword search
+-- websearch_to_tsquery ANDs every word, so "react developer who knows aws"
+-- found nothing unless a listing contained all of them. Words are now
+-- ORed and ts_rank puts listings matching more of them first; quoted
+-- phrases and -exclusions keep their websearch meaning.
+
+-- websearch_to_tsquery output with its top-level ANDs split apart:
+-- wanted terms (words, phrases, "or" groups) are ORed, exclusions ANDed on
+CREATE OR REPLACE FUNCTION any_terms_tsquery(search_query TEXT)
+RETURNS tsquery AS $$
+    SELECT COALESCE(string_agg(part, ' | ') FILTER (WHERE part NOT LIKE '!%'), '')::tsquery
+        && COALESCE(string_agg(part, ' & ') FILTER (WHERE part LIKE '!%'), '')::tsquery
+    FROM regexp_split_to_table(websearch_to_tsquery('english', COALESCE(search_query, ''))::text, ' & ') AS part
+    WHERE part <> '';
+$$ LANGUAGE sql STABLE;
+
+-- Search RPCs from 019, matching any term
+CREATE OR REPLACE FUNCTION search_listings(
+    search_query TEXT,
+    listing_type TEXT,
+    near_lat DOUBLE PRECISION DEFAULT NULL,
+    near_lng DOUBLE PRECISION DEFAULT NULL,
+    within_km NUMERIC DEFAULT NULL,
+    overlap_timezone TEXT DEFAULT NULL,
+    max_timezone_diff_hours NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    type TEXT,
+    title TEXT,
+    description TEXT,
+    skills TEXT[],
+    rate_min INTEGER,
+    rate_max INTEGER,
+    rate_type TEXT,
+    currency TEXT,
+    estimated_hours INTEGER,
+    hourly_rate_min NUMERIC,
+    hourly_rate_max NUMERIC,
+    location TEXT,
+    country TEXT,
+    region TEXT,
+    city TEXT,
+    timezone TEXT,
+    timezone_window_hours NUMERIC,
+    distance_km DOUBLE PRECISION,
+    remote BOOLEAN,
+    created_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    active BOOLEAN,
+    "user" JSONB,
+    rank REAL
+) AS $$
+    SELECT
+        l.id,
+        l.user_id,
+        l.type,
+        l.title,
+        l.description,
+        l.skills,
+        l.rate_min,
+        l.rate_max,
+        l.rate_type,
+        l.currency,
+        l.estimated_hours,
+        hourly_rate_min(l),
+        hourly_rate_max(l),
+        l.location,
+        l.country,
+        l.region,
+        l.city,
+        l.timezone,
+        l.timezone_window_hours,
+        distance_km(near_lat, near_lng, l.latitude, l.longitude),
+        l.remote,
+        l.created_at,
+        l.expires_at,
+        l.active,
+        jsonb_build_object(
+            'id', u.id,
+            'name', u.name,
+            'headline', u.headline,
+            'linkedin_url', u.linkedin_url
+        ),
+        CASE
+            WHEN numnode(q.query) = 0 THEN 0
+            -- Normalization 32 maps rank to rank / (rank + 1)
+            ELSE ts_rank(l.search_vector, q.query, 32)
+        END
+    FROM listings l
+    JOIN users u ON u.id = l.user_id
+    CROSS JOIN any_terms_tsquery(search_query) AS q(query)
+    WHERE l.type = listing_type
+        AND l.active = true
+        AND (l.expires_at IS NULL OR l.expires_at > NOW())
+        AND (numnode(q.query) = 0 OR l.search_vector @@ q.query)
+        AND listing_in_area(l, NULL, NULL, NULL, near_lat, near_lng, within_km)
+        AND listing_timezone_overlaps(l, overlap_timezone, max_timezone_diff_hours);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION hybrid_search_listings(
+    search_query TEXT,
+    query_embedding extensions.vector(384),
+    listing_type TEXT,
+    semantic_weight REAL DEFAULT 0.5,
+    match_threshold REAL DEFAULT 0.5,
+    near_lat DOUBLE PRECISION DEFAULT NULL,
+    near_lng DOUBLE PRECISION DEFAULT NULL,
+    within_km NUMERIC DEFAULT NULL,
+    overlap_timezone TEXT DEFAULT NULL,
+    max_timezone_diff_hours NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    type TEXT,
+    title TEXT,
+    description TEXT,
+    skills TEXT[],
+    rate_min INTEGER,
+    rate_max INTEGER,
+    rate_type TEXT,
+    currency TEXT,
+    estimated_hours INTEGER,
+    hourly_rate_min NUMERIC,
+    hourly_rate_max NUMERIC,
+    location TEXT,
+    country TEXT,
+    region TEXT,
+    city TEXT,
+    timezone TEXT,
+    timezone_window_hours NUMERIC,
+    distance_km DOUBLE PRECISION,
+    remote BOOLEAN,
+    created_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    active BOOLEAN,
+    "user" JSONB,
+    similarity REAL,
+    rank REAL
+) AS $$
+    SELECT
+        c.id,
+        c.user_id,
+        c.type,
+        c.title,
+        c.description,
+        c.skills,
+        c.rate_min,
+        c.rate_max,
+        c.rate_type,
+        c.currency,
+        c.estimated_hours,
+        c.hourly_min,
+        c.hourly_max,
+        c.location,
+        c.country,
+        c.region,
+        c.city,
+        c.timezone,
+        c.timezone_window_hours,
+        c.distance,
+        c.remote,
+        c.created_at,
+        c.expires_at,
+        c.active,
+        jsonb_build_object(
+            'id', u.id,
+            'name', u.name,
+            'headline', u.headline,
+            'linkedin_url', u.linkedin_url
+        ),
+        c.similarity::REAL,
+        (semantic_weight * c.similarity + (1 - semantic_weight) * c.text_rank)::REAL
+    FROM (
+        SELECT
+            l.*,
+            hourly_rate_min(l) AS hourly_min,
+            hourly_rate_max(l) AS hourly_max,
+            distance_km(near_lat, near_lng, l.latitude, l.longitude) AS distance,
+            CASE
+                WHEN numnode(q.query) = 0 THEN 0
+                -- Normalization 32 maps rank to rank / (rank + 1)
+                ELSE ts_rank(l.search_vector, q.query, 32)
+            END AS text_rank,
+            numnode(q.query) = 0 OR l.search_vector @@ q.query AS text_match,
+            CASE
+                WHEN query_embedding IS NULL OR l.embedding IS NULL THEN 0
+                ELSE 1 - (l.embedding <=> query_embedding)
+            END AS similarity
+        FROM listings l
+        CROSS JOIN any_terms_tsquery(search_query) AS q(query)
+        WHERE l.type = listing_type
+            AND l.active = true
+            AND (l.expires_at IS NULL OR l.expires_at > NOW())
+            AND listing_in_area(l, NULL, NULL, NULL, near_lat, near_lng, within_km)
+            AND listing_timezone_overlaps(l, overlap_timezone, max_timezone_diff_hours)
+    ) c
+    JOIN users u ON u.id = c.user_id
+    WHERE c.text_match OR c.similarity >= match_threshold;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
@@ -0,0 +1,58 @@
+-- Listing edit integrity
+-- Revision numbers were MAX(revision) + 1 over listing_revisions, which two
+-- overlapping edits could both read. Each listing now counts its own
+-- revisions, bumped before the update under the row lock it already takes.
+
+ALTER TABLE listings ADD COLUMN revision INTEGER NOT NULL DEFAULT 0;
+
+UPDATE listings l
+SET revision = r.latest
+FROM (SELECT listing_id, MAX(revision) AS latest FROM listing_revisions GROUP BY listing_id) r
+WHERE r.listing_id = l.id;
+
+-- Revision trigger from 018, numbering from listings.revision
+CREATE OR REPLACE FUNCTION record_listing_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+    changed TEXT[] := '{}';
+BEGIN
+    IF NEW.title IS DISTINCT FROM OLD.title THEN changed := array_append(changed, 'title'); END IF;
+    IF NEW.description IS DISTINCT FROM OLD.description THEN changed := array_append(changed, 'description'); END IF;
+    IF NEW.skills IS DISTINCT FROM OLD.skills THEN changed := array_append(changed, 'skills'); END IF;
+    IF NEW.rate_min IS DISTINCT FROM OLD.rate_min THEN changed := array_append(changed, 'rate_min'); END IF;
+    IF NEW.rate_max IS DISTINCT FROM OLD.rate_max THEN changed := array_append(changed, 'rate_max'); END IF;
+    IF NEW.rate_type IS DISTINCT FROM OLD.rate_type THEN changed := array_append(changed, 'rate_type'); END IF;
+    IF NEW.currency IS DISTINCT FROM OLD.currency THEN changed := array_append(changed, 'currency'); END IF;
+    IF NEW.estimated_hours IS DISTINCT FROM OLD.estimated_hours THEN changed := array_append(changed, 'estimated_hours'); END IF;
+    IF NEW.location IS DISTINCT FROM OLD.location THEN changed := array_append(changed, 'location'); END IF;
+    IF NEW.remote IS DISTINCT FROM OLD.remote THEN changed := array_append(changed, 'remote'); END IF;
+
+    -- Clients can't set the counter; only recorded edits move it
+    NEW.revision := OLD.revision;
+    IF cardinality(changed) > 0 THEN
+        NEW.revision := OLD.revision + 1;
+        INSERT INTO listing_revisions (
+            listing_id, revision, edited_by, changed_fields,
+            title, description, skills, rate_min, rate_max, rate_type,
+            currency, estimated_hours, location, remote
+        ) VALUES (
+            OLD.id, NEW.revision, auth.uid(), changed,
+            OLD.title, OLD.description, OLD.skills, OLD.rate_min, OLD.rate_max, OLD.rate_type,
+            OLD.currency, OLD.estimated_hours, OLD.location, OLD.remote
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_listing_update_record_revision ON listings;
+CREATE TRIGGER on_listing_update_record_revision
+    BEFORE UPDATE ON listings
+    FOR EACH ROW
+    EXECUTE FUNCTION record_listing_revision();
+
+-- A rate range can't be inverted, whichever side an edit touches.
+-- NOT VALID: existing rows are left as they are, new writes are checked.
+ALTER TABLE listings ADD CONSTRAINT listings_rate_range_check
+    CHECK (rate_min IS NULL OR rate_max IS NULL OR rate_min <= rate_max) NOT VALID;
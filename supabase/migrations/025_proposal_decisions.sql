@@ -0,0 +1,108 @@
+-- Proposal decision fixes
+-- Owners lost sight of proposals' listings once they deactivated them
+-- (listings were only readable while active), accepting could leave a
+-- proposal accepted without its opening message, and a decided proposal's
+-- note and conversation could still be rewritten.
+
+-- Owners can always read their own listings, active or not
+CREATE POLICY "Users can view own listings" ON listings
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Transition trigger from 009, now also freezing the decision itself
+CREATE OR REPLACE FUNCTION enforce_proposal_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.listing_id IS DISTINCT FROM OLD.listing_id
+        OR NEW.applicant_id IS DISTINCT FROM OLD.applicant_id
+        OR NEW.cover_note IS DISTINCT FROM OLD.cover_note
+        OR NEW.proposed_rate IS DISTINCT FROM OLD.proposed_rate
+        OR NEW.rate_type IS DISTINCT FROM OLD.rate_type
+        OR NEW.available_from IS DISTINCT FROM OLD.available_from
+        OR NEW.estimated_duration IS DISTINCT FROM OLD.estimated_duration
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'Proposal terms cannot be changed';
+    END IF;
+
+    -- Once decided, the note and conversation stay as sent to the applicant.
+    -- Clearing conversation_id is allowed: it's the FK's ON DELETE SET NULL.
+    IF OLD.status <> 'pending' AND (
+        NEW.decision_note IS DISTINCT FROM OLD.decision_note
+        OR (NEW.conversation_id IS DISTINCT FROM OLD.conversation_id AND NEW.conversation_id IS NOT NULL)
+    ) THEN
+        RAISE EXCEPTION 'Proposal has already been %', OLD.status;
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        IF OLD.status <> 'pending' THEN
+            RAISE EXCEPTION 'Proposal has already been %', OLD.status;
+        END IF;
+        NEW.decided_at := NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Accept a pending proposal, open (or reuse) the listing's thread with the
+-- applicant and send the opening message in one transaction, so a rejected
+-- message (rate limit, block) or a lost race leaves the proposal pending and
+-- no conversation behind. Only the listing's owner can accept. Runs as the
+-- caller: RLS and the message and conversation triggers apply.
+CREATE OR REPLACE FUNCTION accept_proposal(
+    target_proposal_id UUID,
+    first_message TEXT,
+    note TEXT DEFAULT NULL
+)
+RETURNS SETOF proposals AS $$
+DECLARE
+    pending proposals;
+    accepted proposals;
+    participants UUID[];
+    thread_id UUID;
+BEGIN
+    SELECT p.* INTO pending
+    FROM proposals p
+    JOIN listings l ON l.id = p.listing_id
+    WHERE p.id = target_proposal_id
+        AND p.status = 'pending'
+        AND l.user_id = auth.uid()
+    FOR UPDATE OF p;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Proposal not found or already decided' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Sorted, like every participant array since 014
+    participants := ARRAY(SELECT unnest(ARRAY[auth.uid(), pending.applicant_id]) ORDER BY 1);
+
+    SELECT id INTO thread_id
+    FROM conversations
+    WHERE participant_ids = participants AND listing_id = pending.listing_id;
+
+    IF thread_id IS NULL THEN
+        INSERT INTO conversations (participant_ids, listing_id, last_message_at)
+        VALUES (participants, pending.listing_id, NOW())
+        ON CONFLICT (participant_ids, listing_id) DO NOTHING
+        RETURNING id INTO thread_id;
+    END IF;
+
+    -- The applicant opened the same thread at the same moment
+    IF thread_id IS NULL THEN
+        SELECT id INTO thread_id
+        FROM conversations
+        WHERE participant_ids = participants AND listing_id = pending.listing_id;
+    END IF;
+
+    UPDATE proposals
+    SET status = 'accepted', conversation_id = thread_id, decision_note = note
+    WHERE id = target_proposal_id
+    RETURNING * INTO accepted;
+
+    INSERT INTO messages (conversation_id, sender_id, recipient_id, content, read)
+    VALUES (thread_id, auth.uid(), accepted.applicant_id, first_message, false);
+
+    UPDATE conversations SET last_message_at = NOW() WHERE id = thread_id;
+
+    RETURN NEXT accepted;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,34 @@
+-- Reviews need real engagement
+-- Any conversation was enough to review someone, including one the reviewer
+-- opened and the reviewee never answered. Now it takes an accepted proposal
+-- or a thread both people wrote in. Each side still reviews an engagement
+-- once (unique_review_per_direction, 010).
+
+DROP POLICY IF EXISTS "Participants can review each other" ON reviews;
+CREATE POLICY "Participants can review each other" ON reviews
+    FOR INSERT WITH CHECK (
+        auth.uid() = reviewer_id
+        AND EXISTS (
+            SELECT 1 FROM conversations c
+            WHERE c.id = reviews.conversation_id
+                AND reviewer_id = ANY(c.participant_ids)
+                AND reviewee_id = ANY(c.participant_ids)
+        )
+        AND (
+            EXISTS (
+                SELECT 1 FROM proposals p
+                WHERE p.conversation_id = reviews.conversation_id
+                    AND p.status = 'accepted'
+            )
+            OR (
+                EXISTS (
+                    SELECT 1 FROM messages m
+                    WHERE m.conversation_id = reviews.conversation_id AND m.sender_id = reviews.reviewer_id
+                )
+                AND EXISTS (
+                    SELECT 1 FROM messages m
+                    WHERE m.conversation_id = reviews.conversation_id AND m.sender_id = reviews.reviewee_id
+                )
+            )
+        )
+    );
@@ -0,0 +1,126 @@
+-- Private block checks
+-- blocked_between(UUID[]) was SECURITY DEFINER and callable over the API,
+-- so anyone could probe who has blocked whom. The replacement takes a pair,
+-- only answers signed-in users about themselves, and isn't executable by
+-- anon. Proposals now also respect blocks.
+
+-- True if either user has blocked the other. SECURITY DEFINER so policies
+-- can see blocks the caller didn't create; a signed-in caller must be one
+-- of the two (background jobs run without a user and may ask about anyone).
+CREATE OR REPLACE FUNCTION blocked_between(user_a UUID, user_b UUID)
+RETURNS BOOLEAN AS $$
+    SELECT (auth.uid() IS NULL OR auth.uid() IN (user_a, user_b))
+        AND EXISTS (
+            SELECT 1 FROM user_blocks b
+            WHERE (b.blocker_id = user_a AND b.blocked_id = user_b)
+                OR (b.blocker_id = user_b AND b.blocked_id = user_a)
+        );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION blocked_between(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION blocked_between(UUID, UUID) TO authenticated, service_role;
+
+-- Policies from 012, on the pairwise check
+DROP POLICY IF EXISTS "Users can send messages" ON messages;
+CREATE POLICY "Users can send messages" ON messages
+    FOR INSERT WITH CHECK (
+        auth.uid()::text = sender_id::text
+        AND NOT blocked_between(sender_id, recipient_id)
+    );
+
+DROP POLICY IF EXISTS "Users can create conversations they're part of" ON conversations;
+CREATE POLICY "Users can create conversations they're part of" ON conversations
+    FOR INSERT WITH CHECK (
+        auth.uid()::text = ANY(participant_ids::text[])
+        AND NOT EXISTS (
+            SELECT 1 FROM unnest(participant_ids) AS p(id)
+            WHERE p.id <> auth.uid() AND blocked_between(auth.uid(), p.id)
+        )
+    );
+
+-- Submit policy from 009, now refusing proposals between blocked users
+DROP POLICY IF EXISTS "Users can submit proposals" ON proposals;
+CREATE POLICY "Users can submit proposals" ON proposals
+    FOR INSERT WITH CHECK (
+        auth.uid() = applicant_id
+        AND status = 'pending'
+        AND EXISTS (
+            SELECT 1 FROM listings l
+            WHERE l.id = listing_id
+                AND l.active = true
+                AND l.user_id <> auth.uid()
+        )
+        AND NOT blocked_between(auth.uid(), listing_owner(listing_id))
+    );
+
+-- Recommendation scoring from 018, on the pairwise check
+CREATE OR REPLACE FUNCTION score_listing_matches(src listings)
+RETURNS TABLE (
+    listing_id UUID,
+    score REAL,
+    skill_score REAL,
+    rate_score REAL,
+    location_score REAL,
+    recency_score REAL,
+    matched_skills TEXT[]
+) AS $$
+    WITH wanted AS (
+        SELECT
+            expand_skills(COALESCE(src.skills, '{}')) AS skills,
+            hourly_rate_min(src) AS s_lo,
+            hourly_rate_max(src) AS s_hi
+    ),
+    scored AS (
+        SELECT
+            c.id,
+            m.matched,
+            CASE
+                WHEN COALESCE(cardinality(src.skills), 0) = 0 THEN 0.5
+                ELSE LEAST(cardinality(m.matched)::REAL / cardinality(src.skills), 1)
+            END AS skill_score,
+            CASE
+                WHEN w.s_lo IS NULL OR rb.c_lo IS NULL THEN 0.5
+                WHEN w.s_lo <= rb.c_hi AND rb.c_lo <= w.s_hi THEN 1
+                ELSE GREATEST(
+                    0,
+                    1 - (GREATEST(w.s_lo, rb.c_lo) - LEAST(w.s_hi, rb.c_hi))
+                        / GREATEST(w.s_hi, rb.c_hi, 1)
+                )
+            END AS rate_score,
+            CASE
+                WHEN src.remote AND c.remote THEN 1
+                WHEN COALESCE(src.location, '') <> '' AND COALESCE(c.location, '') <> ''
+                    AND (src.location ILIKE '%' || c.location || '%' OR c.location ILIKE '%' || src.location || '%') THEN 1
+                WHEN src.remote OR c.remote THEN 0.5
+                WHEN COALESCE(src.location, '') = '' OR COALESCE(c.location, '') = '' THEN 0.5
+                ELSE 0
+            END AS location_score,
+            exp(-EXTRACT(EPOCH FROM NOW() - c.created_at) / 86400 / 30) AS recency_score
+        FROM listings c
+        CROSS JOIN wanted w
+        CROSS JOIN LATERAL (
+            SELECT ARRAY(SELECT unnest(c.skills) INTERSECT SELECT unnest(w.skills)) AS matched
+        ) m
+        CROSS JOIN LATERAL (
+            SELECT hourly_rate_min(c) AS c_lo, hourly_rate_max(c) AS c_hi
+        ) rb
+        WHERE c.type = CASE src.type WHEN 'job' THEN 'available' ELSE 'job' END
+            AND c.active = true
+            AND (c.expires_at IS NULL OR c.expires_at > NOW())
+            AND c.user_id <> src.user_id
+            AND (COALESCE(cardinality(src.skills), 0) = 0 OR cardinality(m.matched) > 0)
+            AND NOT blocked_between(src.user_id, c.user_id)
+    )
+    SELECT
+        id,
+        (0.5 * skill_score + 0.2 * rate_score + 0.2 * location_score + 0.1 * recency_score)::REAL,
+        skill_score::REAL,
+        rate_score::REAL,
+        location_score::REAL,
+        recency_score::REAL,
+        matched
+    FROM scored
+    WHERE location_score > 0;
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS blocked_between(UUID[]);
@@ -0,0 +1,87 @@
+-- Embed new and edited rows as they're written
+-- 015 relied on a database webhook being set up by hand to call the embed
+-- function; without one, listings were never embedded and semantic search
+-- quietly fell back to full-text rank. The trigger below makes that call
+-- with pg_net. It reads the project URL and service role key from Vault:
+--
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+--
+-- Until both exist (e.g. a fresh local stack) rows stay NULL and are picked
+-- up by the embed function's backfill (POST with an empty body).
+
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Function to send a row without an embedding to the embed function, in
+-- the database webhook payload format it already accepts
+CREATE OR REPLACE FUNCTION request_row_embedding()
+RETURNS TRIGGER AS $$
+DECLARE
+    project_url TEXT;
+    service_role_key TEXT;
+BEGIN
+    SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+    SELECT decrypted_secret INTO service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+    IF project_url IS NULL OR service_role_key IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- Asynchronous: the request is queued and sent after commit
+    PERFORM net.http_post(
+        url := rtrim(project_url, '/') || '/functions/v1/embed',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || service_role_key
+        ),
+        body := jsonb_build_object(
+            'type', TG_OP,
+            'table', TG_TABLE_NAME,
+            'record', to_jsonb(NEW) - 'embedding' - 'search_vector'
+        )
+    );
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Triggers for new rows, and for edits to the embedded text (the 015
+-- triggers clear a stale embedding first). Rows never embedded, or whose
+-- embed call failed, are retried on their next text edit too. Other
+-- updates, including the embed function's own, don't fire; the backfill
+-- covers rows that aren't edited again.
+DROP TRIGGER IF EXISTS on_listing_insert_request_embedding ON listings;
+CREATE TRIGGER on_listing_insert_request_embedding
+    AFTER INSERT ON listings
+    FOR EACH ROW
+    WHEN (NEW.embedding IS NULL)
+    EXECUTE FUNCTION request_row_embedding();
+
+DROP TRIGGER IF EXISTS on_listing_update_request_embedding ON listings;
+CREATE TRIGGER on_listing_update_request_embedding
+    AFTER UPDATE ON listings
+    FOR EACH ROW
+    WHEN (
+        NEW.embedding IS NULL
+        AND (
+            NEW.title IS DISTINCT FROM OLD.title
+            OR NEW.description IS DISTINCT FROM OLD.description
+            OR NEW.skills IS DISTINCT FROM OLD.skills
+        )
+    )
+    EXECUTE FUNCTION request_row_embedding();
+
+DROP TRIGGER IF EXISTS on_saved_search_insert_request_embedding ON saved_searches;
+CREATE TRIGGER on_saved_search_insert_request_embedding
+    AFTER INSERT ON saved_searches
+    FOR EACH ROW
+    WHEN (NEW.embedding IS NULL)
+    EXECUTE FUNCTION request_row_embedding();
+
+DROP TRIGGER IF EXISTS on_saved_search_update_request_embedding ON saved_searches;
+CREATE TRIGGER on_saved_search_update_request_embedding
+    AFTER UPDATE ON saved_searches
+    FOR EACH ROW
+    WHEN (
+        NEW.embedding IS NULL
+        AND (NEW.query IS DISTINCT FROM OLD.query OR NEW.skills_filter IS DISTINCT FROM OLD.skills_filter)
+    )
+    EXECUTE FUNCTION request_row_embedding();
@@ -0,0 +1,33 @@
+-- Inbox order by latest message
+-- get_conversations pages on last_message_at, which only the sending client
+-- used to update (after the insert, and not at all if that request failed).
+-- A trigger now moves it to each new message's time.
+
+CREATE OR REPLACE FUNCTION touch_conversation_last_message()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE conversations
+    SET last_message_at = GREATEST(last_message_at, NEW.created_at)
+    WHERE id = NEW.conversation_id;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_new_message_touch_conversation ON messages;
+CREATE TRIGGER on_new_message_touch_conversation
+    AFTER INSERT ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION touch_conversation_last_message();
+
+-- Existing threads: the time of their newest message
+UPDATE conversations c
+SET last_message_at = latest.created_at
+FROM (
+    SELECT conversation_id, MAX(created_at) AS created_at
+    FROM messages
+    GROUP BY conversation_id
+) latest
+WHERE latest.conversation_id = c.id
+    AND c.last_message_at IS DISTINCT FROM latest.created_at;
+
+CREATE INDEX idx_conversations_last_message ON conversations(last_message_at DESC, id DESC);
@@ -0,0 +1,83 @@
+-- Messaging rate limits (013): once a sender reaches messages_per_minute,
+-- the next message is refused with PT429 and the limit in DETAIL.
+-- Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- A low limit keeps the test short; rolled back with everything else
+UPDATE rate_limits SET max_count = 3 WHERE name = 'messages_per_minute';
+
+INSERT INTO users (id, name) VALUES
+    ('00000000-0000-4000-8000-00000000000a', 'Rate Limit Sender'),
+    ('00000000-0000-4000-8000-00000000000b', 'Rate Limit Recipient'),
+    ('00000000-0000-4000-8000-00000000000c', 'Other Sender');
+
+INSERT INTO conversations (id, participant_ids, created_by) VALUES
+    ('00000000-0000-4000-8000-0000000000ab',
+     ARRAY['00000000-0000-4000-8000-00000000000a', '00000000-0000-4000-8000-00000000000b']::UUID[],
+     '00000000-0000-4000-8000-00000000000a'),
+    ('00000000-0000-4000-8000-0000000000bc',
+     ARRAY['00000000-0000-4000-8000-00000000000b', '00000000-0000-4000-8000-00000000000c']::UUID[],
+     '00000000-0000-4000-8000-00000000000c');
+
+-- The DETAIL of a refused send (PostgREST returns it as "details")
+CREATE FUNCTION pg_temp.rate_limit_detail() RETURNS JSONB AS $$
+DECLARE
+    detail TEXT;
+BEGIN
+    INSERT INTO messages (conversation_id, sender_id, recipient_id, content)
+    VALUES ('00000000-0000-4000-8000-0000000000ab', '00000000-0000-4000-8000-00000000000a',
+            '00000000-0000-4000-8000-00000000000b', 'hi');
+    RETURN NULL;
+EXCEPTION WHEN SQLSTATE 'PT429' THEN
+    GET STACKED DIAGNOSTICS detail = PG_EXCEPTION_DETAIL;
+    RETURN detail::JSONB;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Send as the signed-in sender, through RLS like a client would
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-00000000000a", "role": "authenticated"}', true);
+
+PREPARE send_message AS
+    INSERT INTO messages (conversation_id, sender_id, recipient_id, content)
+    VALUES ('00000000-0000-4000-8000-0000000000ab', '00000000-0000-4000-8000-00000000000a',
+            '00000000-0000-4000-8000-00000000000b', 'hi');
+
+SELECT lives_ok('EXECUTE send_message', 'message 1 of 3 is sent');
+SELECT lives_ok('EXECUTE send_message', 'message 2 of 3 is sent');
+SELECT lives_ok('EXECUTE send_message', 'message 3 of 3 is sent');
+
+SELECT throws_ok(
+    'EXECUTE send_message',
+    'PT429',
+    'You are sending messages too quickly',
+    'the message over the limit is refused with PT429'
+);
+
+SELECT is(
+    (SELECT COUNT(*)::int FROM messages WHERE sender_id = '00000000-0000-4000-8000-00000000000a'),
+    3,
+    'the refused message was not stored'
+);
+
+-- DETAIL carries the limit as JSON
+SELECT is(
+    pg_temp.rate_limit_detail(),
+    '{"limit": "messages_per_minute", "max": 3, "window_seconds": 60}'::JSONB,
+    'the error details name the limit, its max and window'
+);
+
+-- Limits are per sender
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-00000000000c", "role": "authenticated"}', true);
+SELECT lives_ok(
+    $$INSERT INTO messages (conversation_id, sender_id, recipient_id, content)
+      VALUES ('00000000-0000-4000-8000-0000000000bc', '00000000-0000-4000-8000-00000000000c',
+              '00000000-0000-4000-8000-00000000000b', 'hi')$$,
+    'another sender is not affected'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,85 @@
+-- Realtime activity (020): messages and notifications are published, and
+-- Realtime delivers a change only to subscribers whose SELECT policies
+-- allow the row, so these checks are what wait_for_activity relies on.
+-- Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+SELECT ok(
+    EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'messages'
+    ),
+    'messages are published to Realtime'
+);
+
+SELECT ok(
+    EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+    ),
+    'notifications are published to Realtime'
+);
+
+INSERT INTO users (id, name) VALUES
+    ('00000000-0000-4000-8000-00000000001a', 'Realtime Subscriber'),
+    ('00000000-0000-4000-8000-00000000001b', 'Realtime Sender'),
+    ('00000000-0000-4000-8000-00000000001c', 'Realtime Bystander');
+
+INSERT INTO conversations (id, participant_ids, created_by) VALUES
+    ('00000000-0000-4000-8000-0000000001ab',
+     ARRAY['00000000-0000-4000-8000-00000000001a', '00000000-0000-4000-8000-00000000001b']::UUID[],
+     '00000000-0000-4000-8000-00000000001b'),
+    ('00000000-0000-4000-8000-0000000001bc',
+     ARRAY['00000000-0000-4000-8000-00000000001b', '00000000-0000-4000-8000-00000000001c']::UUID[],
+     '00000000-0000-4000-8000-00000000001b');
+
+-- Each message also gets a message_received notification (005)
+INSERT INTO messages (conversation_id, sender_id, recipient_id, content) VALUES
+    ('00000000-0000-4000-8000-0000000001ab', '00000000-0000-4000-8000-00000000001b',
+     '00000000-0000-4000-8000-00000000001a', 'for the subscriber'),
+    ('00000000-0000-4000-8000-0000000001bc', '00000000-0000-4000-8000-00000000001b',
+     '00000000-0000-4000-8000-00000000001c', 'for someone else');
+
+INSERT INTO notifications (user_id, type, title, body) VALUES
+    ('00000000-0000-4000-8000-00000000001a', 'new_match', 'Match', 'For the subscriber'),
+    ('00000000-0000-4000-8000-00000000001c', 'new_match', 'Match', 'For someone else');
+
+-- Read as the subscriber, the way Realtime authorizes each change
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-00000000001a", "role": "authenticated"}', true);
+
+SELECT results_eq(
+    'SELECT content FROM messages ORDER BY content',
+    ARRAY['for the subscriber'],
+    'the subscriber sees messages sent to them'
+);
+
+SELECT is_empty(
+    $$SELECT 1 FROM messages WHERE recipient_id = '00000000-0000-4000-8000-00000000001c'$$,
+    'the subscriber does not see messages between other users'
+);
+
+SELECT results_eq(
+    $$SELECT type FROM notifications ORDER BY type$$,
+    ARRAY['message_received', 'new_match'],
+    'the subscriber sees their own notifications, including the one for their message'
+);
+
+SELECT is_empty(
+    $$SELECT 1 FROM notifications WHERE user_id <> '00000000-0000-4000-8000-00000000001a'$$,
+    'the subscriber does not see other users'' notifications'
+);
+
+-- The sender sees what they sent, but not the recipient's notifications
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-00000000001b", "role": "authenticated"}', true);
+
+SELECT is_empty(
+    'SELECT 1 FROM notifications',
+    'the sender does not receive the recipient''s notifications'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
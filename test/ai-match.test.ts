@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AiMatchUnavailableError, requestAiMatches } from '../src/lib/ai-match.js';
+import { FUNCTIONS_URL, jsonResponse, stubFetch, useTestConfigDir } from './helpers.js';
+
+const match = {
+  listing: {
+    id: 'listing-1',
+    user_id: 'user-1',
+    type: 'available',
+    title: 'React developer',
+    description: 'Frontend work',
+    skills: ['react'],
+    remote: true,
+    created_at: '2026-01-01T00:00:00Z',
+    active: true,
+  },
+  user: {
+    id: 'user-1',
+    name: 'Ada',
+    created_at: '2025-01-01T00:00:00Z',
+    last_active: '2026-01-01T00:00:00Z',
+  },
+  score: 0.9,
+  reasons: ['Knows React'],
+};
+
+describe('requestAiMatches', () => {
+  useTestConfigDir();
+
+  it('posts the query as the user and returns the matches', async () => {
+    const { fetch, calls } = stubFetch(() => jsonResponse({ matches: [match] }));
+
+    const matches = await requestAiMatches('react dev', 'talent', { fetch, accessToken: 'user-token' });
+
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].url, `${FUNCTIONS_URL}/ai-match`);
+    assert.equal(calls[0].init?.method, 'POST');
+    assert.equal((calls[0].init?.headers as Record<string, string>).Authorization, 'Bearer user-token');
+    assert.deepEqual(JSON.parse(String(calls[0].init?.body)), { query: 'react dev', type: 'talent' });
+
+    assert.equal(matches.length, 1);
+    assert.equal(matches[0].listing.title, 'React developer');
+    assert.deepEqual(matches[0].reasons, ['Knows React']);
+    // Defaulted for deployments that don't return it
+    assert.equal(matches[0].listing.currency, 'USD');
+  });
+
+  it('reports a 5xx as unavailable', async () => {
+    const { fetch } = stubFetch(() => jsonResponse({ error: 'boom' }, 502));
+
+    await assert.rejects(
+      requestAiMatches('react dev', 'talent', { fetch, accessToken: 'user-token' }),
+      AiMatchUnavailableError
+    );
+  });
+
+  it('reports a missing function (404) as unavailable', async () => {
+    const { fetch } = stubFetch(() => new Response('Not found', { status: 404 }));
+
+    await assert.rejects(
+      requestAiMatches('react dev', 'talent', { fetch, accessToken: 'user-token' }),
+      AiMatchUnavailableError
+    );
+  });
+
+  it('reports a network failure as unavailable', async () => {
+    const { fetch } = stubFetch(() => {
+      throw new TypeError('fetch failed');
+    });
+
+    await assert.rejects(
+      requestAiMatches('react dev', 'talent', { fetch, accessToken: 'user-token' }),
+      AiMatchUnavailableError
+    );
+  });
+
+  it('reports a malformed body as unavailable', async () => {
+    for (const body of [{ matches: [{ score: 'high' }] }, { results: [] }]) {
+      const { fetch } = stubFetch(() => jsonResponse(body));
+
+      await assert.rejects(
+        requestAiMatches('react dev', 'talent', { fetch, accessToken: 'user-token' }),
+        AiMatchUnavailableError
+      );
+    }
+
+    const { fetch } = stubFetch(() => new Response('<html>oops</html>', { status: 200 }));
+    await assert.rejects(
+      requestAiMatches('react dev', 'talent', { fetch, accessToken: 'user-token' }),
+      AiMatchUnavailableError
+    );
+  });
+
+  it('passes a 4xx error message through as a plain error', async () => {
+    const { fetch } = stubFetch(() => jsonResponse({ error: 'Query is required' }, 400));
+
+    await assert.rejects(requestAiMatches('', 'talent', { fetch, accessToken: 'user-token' }), (error: Error) => {
+      assert.ok(!(error instanceof AiMatchUnavailableError));
+      assert.equal(error.message, 'Query is required');
+      return true;
+    });
+  });
+});
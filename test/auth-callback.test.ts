@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Session } from '@supabase/supabase-js';
+import { handleAuthCallback, type AuthCallbackOptions } from '../src/lib/auth-callback.js';
+
+const STATE = 'expected-state';
+
+const session = {
+  access_token: 'access',
+  refresh_token: 'refresh',
+  user: { id: 'user-1', user_metadata: { full_name: 'Ada <b>Lovelace</b>' } },
+} as unknown as Session;
+
+// Just enough of IncomingMessage and ServerResponse for the handler,
+// recording what was sent
+function fakeRequest(url: string, method = 'GET') {
+  const req = { method, url } as IncomingMessage;
+  const sent: { status?: number; headers?: Record<string, string>; body?: string } = {};
+  const res = {
+    writeHead(status: number, headers: Record<string, string>) {
+      sent.status = status;
+      sent.headers = headers;
+      return this;
+    },
+    end(body: string) {
+      sent.body = body;
+      return this;
+    },
+  } as unknown as ServerResponse;
+  return { req, res, sent };
+}
+
+function options(exchangeCode: AuthCallbackOptions['exchangeCode'] = async () => session): AuthCallbackOptions {
+  return { state: STATE, exchangeCode };
+}
+
+describe('handleAuthCallback', () => {
+  it('ignores other paths', async () => {
+    const { req, res, sent } = fakeRequest('/favicon.ico');
+
+    assert.equal(await handleAuthCallback(req, res, options()), null);
+    assert.equal(sent.status, 404);
+  });
+
+  it('ignores a callback with the wrong state', async () => {
+    let exchanged = false;
+    const { req, res, sent } = fakeRequest('/callback?state=other&code=abc');
+
+    const result = await handleAuthCallback(req, res, options(async () => {
+      exchanged = true;
+      return session;
+    }));
+
+    assert.equal(result, null);
+    assert.equal(sent.status, 400);
+    assert.equal(exchanged, false);
+  });
+
+  it('reports an error from the provider', async () => {
+    const { req, res, sent } = fakeRequest(
+      `/callback?state=${STATE}&error=access_denied&error_description=${encodeURIComponent('User said no & left')}`
+    );
+
+    const result = await handleAuthCallback(req, res, options());
+
+    assert.ok(result && 'error' in result);
+    assert.equal(result.error.message, 'User said no & left');
+    assert.equal(sent.status, 400);
+    assert.match(sent.body!, /User said no &amp; left/);
+  });
+
+  it('escapes markup in the error description', async () => {
+    const { req, res, sent } = fakeRequest(
+      `/callback?state=${STATE}&error=x&error_description=${encodeURIComponent('<script>alert(1)</script>')}`
+    );
+
+    await handleAuthCallback(req, res, options());
+
+    assert.doesNotMatch(sent.body!, /<script>/);
+    assert.match(sent.body!, /&lt;script&gt;alert\(1\)&lt;\/script&gt;/);
+  });
+
+  it('fails without an authorization code', async () => {
+    const { req, res, sent } = fakeRequest(`/callback?state=${STATE}`);
+
+    const result = await handleAuthCallback(req, res, options());
+
+    assert.ok(result && 'error' in result);
+    assert.equal(sent.status, 400);
+  });
+
+  it('reports a failed code exchange', async () => {
+    const { req, res, sent } = fakeRequest(`/callback?state=${STATE}&code=abc`);
+
+    const result = await handleAuthCallback(req, res, options(async () => {
+      throw new Error('invalid flow state');
+    }));
+
+    assert.ok(result && 'error' in result);
+    assert.equal(result.error.message, 'invalid flow state');
+    assert.equal(sent.status, 500);
+    assert.match(sent.body!, /invalid flow state/);
+  });
+
+  it('exchanges the code and greets the user', async () => {
+    let exchangedCode: string | undefined;
+    const { req, res, sent } = fakeRequest(`/callback?state=${STATE}&code=abc`);
+
+    const result = await handleAuthCallback(req, res, options(async (code) => {
+      exchangedCode = code;
+      return session;
+    }));
+
+    assert.deepEqual(result, { session });
+    assert.equal(exchangedCode, 'abc');
+    assert.equal(sent.status, 200);
+    assert.equal(sent.headers?.['Cache-Control'], 'no-store');
+    assert.match(sent.body!, /Welcome to opengig, Ada &lt;b&gt;Lovelace&lt;\/b&gt;!/);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DeviceAuthError, pollDeviceAuth, startDeviceAuth, type DeviceCode } from '../src/lib/device-auth.js';
+import { FUNCTIONS_URL, jsonResponse, stubFetch, useTestConfigDir } from './helpers.js';
+
+const device: DeviceCode = {
+  device_code: 'device-code',
+  user_code: 'ABCD-EFGH',
+  verification_uri: 'https://opengig.test/device',
+  expires_in: 600,
+  interval: 5,
+};
+
+const tokens = { access_token: 'access', refresh_token: 'refresh' };
+
+// Returns immediately, recording how long the poller meant to wait
+function stubSleep() {
+  const waits: number[] = [];
+  const sleep = async (ms: number) => {
+    waits.push(ms);
+  };
+  return { sleep, waits };
+}
+
+function networkFailure(): never {
+  throw new TypeError('fetch failed');
+}
+
+describe('device auth', () => {
+  useTestConfigDir();
+
+  describe('startDeviceAuth', () => {
+    it('requests a device code', async () => {
+      const { fetch, calls } = stubFetch([jsonResponse({ ...device, interval: undefined })]);
+
+      const code = await startDeviceAuth({ fetch });
+
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].url, `${FUNCTIONS_URL}/device-auth`);
+      assert.deepEqual(JSON.parse(String(calls[0].init?.body)), { action: 'start' });
+      assert.equal(code.user_code, 'ABCD-EFGH');
+      // RFC 8628 default when the server doesn't say
+      assert.equal(code.interval, 5);
+    });
+
+    it('throws when the function is unreachable', async () => {
+      const { fetch } = stubFetch([networkFailure]);
+
+      await assert.rejects(startDeviceAuth({ fetch }), DeviceAuthError);
+    });
+
+    it('throws with the error description on failure', async () => {
+      const { fetch } = stubFetch([jsonResponse({ error: 'server_error', error_description: 'No database' }, 500)]);
+
+      await assert.rejects(startDeviceAuth({ fetch }), { name: 'DeviceAuthError', message: 'No database' });
+    });
+  });
+
+  describe('pollDeviceAuth', () => {
+    it('keeps polling while authorization is pending, then returns the tokens', async () => {
+      const { fetch, calls } = stubFetch([
+        jsonResponse({ error: 'authorization_pending' }, 400),
+        jsonResponse({ error: 'authorization_pending' }, 400),
+        jsonResponse(tokens),
+      ]);
+      const { sleep, waits } = stubSleep();
+
+      assert.deepEqual(await pollDeviceAuth(device, { fetch, sleep }), tokens);
+      assert.equal(calls.length, 3);
+      assert.deepEqual(JSON.parse(String(calls[0].init?.body)), { action: 'poll', device_code: 'device-code' });
+      assert.deepEqual(waits, [5000, 5000, 5000]);
+    });
+
+    it('backs off by 5 seconds on slow_down', async () => {
+      const { fetch } = stubFetch([
+        jsonResponse({ error: 'slow_down' }, 400),
+        jsonResponse({ error: 'slow_down' }, 400),
+        jsonResponse(tokens),
+      ]);
+      const { sleep, waits } = stubSleep();
+
+      await pollDeviceAuth(device, { fetch, sleep });
+      assert.deepEqual(waits, [5000, 10000, 15000]);
+    });
+
+    it('gives up when the server reports the code expired', async () => {
+      const { fetch } = stubFetch([jsonResponse({ error: 'expired_token' }, 400)]);
+      const { sleep } = stubSleep();
+
+      await assert.rejects(pollDeviceAuth(device, { fetch, sleep }), {
+        name: 'DeviceAuthError',
+        message: 'The code expired before it was approved',
+      });
+    });
+
+    it('gives up once expires_in has passed', async () => {
+      const { fetch, calls } = stubFetch([]);
+
+      await assert.rejects(pollDeviceAuth({ ...device, expires_in: 0 }, { fetch }), DeviceAuthError);
+      assert.equal(calls.length, 0);
+    });
+
+    it('rides out network failures and server errors', async () => {
+      const { fetch, calls } = stubFetch([
+        networkFailure,
+        jsonResponse({ error: 'bad gateway' }, 502),
+        networkFailure,
+        jsonResponse(tokens),
+      ]);
+      const { sleep } = stubSleep();
+
+      assert.deepEqual(await pollDeviceAuth(device, { fetch, sleep }), tokens);
+      assert.equal(calls.length, 4);
+    });
+
+    it('stops when the login is denied', async () => {
+      const { fetch } = stubFetch([jsonResponse({ error: 'access_denied' }, 400)]);
+      const { sleep } = stubSleep();
+
+      await assert.rejects(pollDeviceAuth(device, { fetch, sleep }), {
+        name: 'DeviceAuthError',
+        message: 'The login was denied',
+      });
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { after, before } from 'node:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Shared setup for tests that talk to edge functions or keep a session
+
+export const FUNCTIONS_URL = 'http://functions.test/v1';
+
+type Responder = () => Response | Promise<Response>;
+
+// A fetch that records its calls. A function answers every call; a list
+// answers each call with its next entry. Throwing from a function acts
+// like a network failure.
+export function stubFetch(respond: Responder | (Response | Responder)[]) {
+  const calls: { url: string; init?: RequestInit }[] = [];
+  const fetch = (async (url: string | URL | Request, init?: RequestInit) => {
+    calls.push({ url: String(url), init });
+    if (typeof respond === 'function') return respond();
+
+    const next = respond.shift();
+    if (!next) throw new Error('Unexpected request');
+    return typeof next === 'function' ? next() : next;
+  }) as typeof globalThis.fetch;
+  return { fetch, calls };
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+// Point the config dir (profiles, sessions) at a fresh temp dir and edge
+// functions at FUNCTIONS_URL for the enclosing describe block. Returns a
+// getter, as the dir only exists once the block starts.
+export function useTestConfigDir(): () => string {
+  let configDir: string;
+
+  before(() => {
+    configDir = mkdtempSync(join(tmpdir(), 'opengig-test-'));
+    process.env.OPENGIG_SESSION_DIR = configDir;
+    process.env.OPENGIG_FUNCTIONS_URL = FUNCTIONS_URL;
+  });
+
+  after(() => {
+    rmSync(configDir, { recursive: true, force: true });
+    delete process.env.OPENGIG_SESSION_DIR;
+    delete process.env.OPENGIG_FUNCTIONS_URL;
+  });
+
+  return () => configDir;
+}
@@ -0,0 +1,166 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { startActivityStream, stopActivityStream, waitForActivity } from '../src/lib/realtime.js';
+
+// Runs against a fake client: the subscription itself and the RLS that
+// Realtime applies need a local stack, and are covered by
+// supabase/tests/realtime_activity.test.sql (supabase test db).
+
+const USER_ID = 'user-1';
+
+type Row = { id: string; created_at: string; type?: string };
+type Listener = (payload: { new: Row }) => void;
+
+interface Query {
+  table: string;
+  calls: [string, ...unknown[]][];
+}
+
+// Just enough of SupabaseClient for realtime.ts: one channel whose status
+// the test drives, and queries answered by `rows(query)`
+function fakeClient(rows: (query: Query) => Row[] = () => []) {
+  const listeners: { filter: Record<string, string>; listener: Listener }[] = [];
+  const queries: Query[] = [];
+  const channelNames: string[] = [];
+  let onStatus: ((status: string, err?: Error) => void) | null = null;
+
+  const channel = {
+    on(_type: string, filter: Record<string, string>, listener: Listener) {
+      listeners.push({ filter, listener });
+      return channel;
+    },
+    subscribe(callback: (status: string, err?: Error) => void) {
+      onStatus = callback;
+      return channel;
+    },
+  };
+
+  const client = {
+    channel(name: string) {
+      channelNames.push(name);
+      return channel;
+    },
+    from(table: string) {
+      const query: Query = { table, calls: [] };
+      queries.push(query);
+      const builder = new Proxy(
+        {},
+        {
+          get(_target, method: string) {
+            if (method === 'then') {
+              return (resolve: (value: unknown) => void) => resolve({ data: rows(query), error: null });
+            }
+            return (...args: unknown[]) => {
+              query.calls.push([method, ...args]);
+              return builder;
+            };
+          },
+        }
+      );
+      return builder;
+    },
+    removeChannel: async () => 'ok',
+    getChannels: () => [],
+    realtime: { disconnect() {} },
+  } as unknown as SupabaseClient;
+
+  return {
+    client,
+    channelNames,
+    listeners,
+    queries,
+    status: (status: string) => onStatus?.(status),
+    insert(table: string, row: Row) {
+      listeners.filter((l) => l.filter.table === table).forEach((l) => l.listener({ new: row }));
+    },
+  };
+}
+
+// Let the queries started by a status change settle
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+function callsOf(query: Query | undefined, method: string): unknown[][] {
+  return (query?.calls ?? []).filter(([name]) => name === method).map(([, ...args]) => args);
+}
+
+describe('activity stream', () => {
+  afterEach(() => stopActivityStream());
+
+  it("subscribes to inserts of the user's messages and notifications", () => {
+    const fake = fakeClient();
+
+    startActivityStream(USER_ID, { client: fake.client });
+
+    assert.deepEqual(fake.channelNames, [`activity:${USER_ID}`]);
+    assert.deepEqual(
+      fake.listeners.map((l) => l.filter),
+      [
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `recipient_id=eq.${USER_ID}` },
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${USER_ID}` },
+      ]
+    );
+  });
+
+  it('reports a message once, without its message_received notification', async () => {
+    const fake = fakeClient();
+    startActivityStream(USER_ID, { client: fake.client });
+    fake.status('SUBSCRIBED');
+
+    fake.insert('messages', { id: 'm1', created_at: '2026-01-01T00:00:01Z' });
+    fake.insert('notifications', { id: 'n1', type: 'message_received', created_at: '2026-01-01T00:00:01Z' });
+    fake.insert('notifications', { id: 'n2', type: 'new_match', created_at: '2026-01-01T00:00:02Z' });
+
+    const events = await waitForActivity(undefined, 0);
+    assert.deepEqual(
+      events.map((e) => [e.type, e.data.id]),
+      [
+        ['message', 'm1'],
+        ['notification', 'n2'],
+      ]
+    );
+  });
+
+  it('backfills after a reconnect from the newest stored row, not the local clock', async () => {
+    const fake = fakeClient((query) => {
+      const backfill = callsOf(query, 'gte').length > 0;
+      if (query.table === 'messages') {
+        return backfill
+          ? [
+              { id: 'm-old', created_at: '2026-01-01T00:00:00Z' },
+              { id: 'm-missed', created_at: '2026-01-01T00:05:00Z' },
+            ]
+          : [{ id: 'm-old', created_at: '2026-01-01T00:00:00Z' }];
+      }
+      return backfill ? [{ id: 'n-missed', type: 'new_match', created_at: '2026-01-01T00:06:00Z' }] : [];
+    });
+    startActivityStream(USER_ID, { client: fake.client });
+
+    fake.status('SUBSCRIBED');
+    await settle();
+    // The newest row of each table, read when the stream went live
+    assert.deepEqual(
+      fake.queries.map((q) => [q.table, callsOf(q, 'order'), callsOf(q, 'limit')]),
+      [
+        ['messages', [['created_at', { ascending: false }]], [[1]]],
+        ['notifications', [['created_at', { ascending: false }]], [[1]]],
+      ]
+    );
+
+    fake.status('CHANNEL_ERROR');
+    fake.status('SUBSCRIBED');
+    await settle();
+
+    const [messages, notifications] = fake.queries.slice(2);
+    assert.deepEqual(callsOf(messages, 'gte'), [['created_at', '2026-01-01T00:00:00Z']]);
+    assert.deepEqual(callsOf(notifications, 'gte'), [['created_at', '2026-01-01T00:00:00Z']]);
+    assert.deepEqual(callsOf(notifications, 'neq'), [['type', 'message_received']]);
+
+    // Rows that existed before the stream went live aren't reported
+    const events = await waitForActivity(undefined, 0);
+    assert.deepEqual(
+      events.map((e) => e.data.id),
+      ['m-missed', 'n-missed']
+    );
+  });
+});
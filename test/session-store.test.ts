@@ -0,0 +1,221 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { Session } from '@supabase/supabase-js';
+import {
+  EncryptedFileSessionStore,
+  KeychainSessionStore,
+  migratePlaintextSession,
+  sessionStoreFromEnv,
+} from '../src/lib/session-store.js';
+import { useTestConfigDir } from './helpers.js';
+
+const session = {
+  access_token: 'access',
+  refresh_token: 'refresh',
+  expires_at: 1_900_000_000,
+  user: { id: 'user-1' },
+} as unknown as Session;
+
+// Stand-in for libsecret's secret-tool: each secret is a file named after
+// its attributes. FAKE_SECRET_TOOL_FAIL makes it fail like it does without
+// a Secret Service on D-Bus.
+const FAKE_SECRET_TOOL = `#!/bin/sh
+if [ -n "$FAKE_SECRET_TOOL_FAIL" ]; then
+  echo "Cannot autolaunch D-Bus without X11" >&2
+  exit 1
+fi
+command=$1
+shift
+[ "$command" = store ] && shift
+file="$FAKE_SECRET_TOOL_DIR/$(echo "$*" | md5sum | cut -d' ' -f1)"
+case $command in
+  lookup) [ -f "$file" ] && cat "$file" || exit 1 ;;
+  store) cat > "$file" ;;
+  clear) rm -f "$file" ;;
+esac
+`;
+
+function mode(file: string): number {
+  return statSync(file).mode & 0o777;
+}
+
+describe('session store', () => {
+  const configDir = useTestConfigDir();
+  let dir: string;
+  let originalPath: string | undefined;
+
+  before(() => {
+    originalPath = process.env.PATH;
+    const bin = join(configDir(), 'bin');
+    const secrets = join(configDir(), 'secrets');
+    mkdirSync(bin);
+    mkdirSync(secrets);
+    writeFileSync(join(bin, 'secret-tool'), FAKE_SECRET_TOOL, { mode: 0o755 });
+    process.env.PATH = `${bin}:${originalPath}`;
+    process.env.FAKE_SECRET_TOOL_DIR = secrets;
+  });
+
+  after(() => {
+    process.env.PATH = originalPath;
+    delete process.env.FAKE_SECRET_TOOL_DIR;
+    delete process.env.FAKE_SECRET_TOOL_FAIL;
+    delete process.env.OPENGIG_SESSION_STORE;
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(configDir(), 'session-'));
+  });
+
+  describe('EncryptedFileSessionStore', () => {
+    it('round-trips a session', async () => {
+      const store = new EncryptedFileSessionStore(dir);
+
+      await store.save(session);
+
+      assert.deepEqual(await store.load(), session);
+      assert.doesNotMatch(readFileSync(join(dir, 'session.enc'), 'utf-8'), /refresh/);
+    });
+
+    it('writes the session and key owner-only', async () => {
+      await new EncryptedFileSessionStore(dir).save(session);
+
+      assert.equal(mode(join(dir, 'session.enc')), 0o600);
+      assert.equal(mode(join(dir, 'session.key')), 0o600);
+    });
+
+    it('tightens the permissions of a file it replaces', async () => {
+      writeFileSync(join(dir, 'session.enc'), '{}', { mode: 0o644 });
+
+      await new EncryptedFileSessionStore(dir).save(session);
+
+      assert.equal(mode(join(dir, 'session.enc')), 0o600);
+    });
+
+    it('loads nothing when there is no session', async () => {
+      assert.equal(await new EncryptedFileSessionStore(dir).load(), null);
+    });
+
+    it('loads nothing from a corrupt session file', async () => {
+      const store = new EncryptedFileSessionStore(dir);
+      await store.save(session);
+      writeFileSync(join(dir, 'session.enc'), 'not json');
+
+      assert.equal(await store.load(), null);
+    });
+
+    it('loads nothing once the key is missing or replaced', async () => {
+      const store = new EncryptedFileSessionStore(dir);
+      await store.save(session);
+
+      rmSync(join(dir, 'session.key'));
+      assert.equal(await store.load(), null);
+
+      writeFileSync(join(dir, 'session.key'), Buffer.alloc(32, 1));
+      assert.equal(await store.load(), null);
+    });
+
+    it('replaces a key of the wrong length on save', async () => {
+      writeFileSync(join(dir, 'session.key'), 'short');
+      const store = new EncryptedFileSessionStore(dir);
+
+      await store.save(session);
+
+      assert.equal(readFileSync(join(dir, 'session.key')).length, 32);
+      assert.deepEqual(await store.load(), session);
+    });
+
+    it('clears the session', async () => {
+      const store = new EncryptedFileSessionStore(dir);
+      await store.save(session);
+
+      await store.clear();
+
+      assert.equal(existsSync(join(dir, 'session.enc')), false);
+      assert.equal(await store.load(), null);
+      // Nothing left to clear
+      await store.clear();
+    });
+  });
+
+  describe('KeychainSessionStore', () => {
+    it('round-trips and clears a session through secret-tool', async () => {
+      const store = new KeychainSessionStore(dir);
+
+      await store.save(session);
+      assert.deepEqual(await store.load(), session);
+
+      await store.clear();
+      assert.equal(await store.load(), null);
+    });
+
+    it('keeps sessions of different dirs apart', async () => {
+      await new KeychainSessionStore(dir).save(session);
+
+      assert.equal(await new KeychainSessionStore(join(dir, 'other')).load(), null);
+    });
+  });
+
+  describe('sessionStoreFromEnv', () => {
+    beforeEach(() => {
+      delete process.env.OPENGIG_SESSION_STORE;
+      delete process.env.FAKE_SECRET_TOOL_FAIL;
+    });
+
+    it('uses the keychain when secret-tool works', async () => {
+      assert.equal((await sessionStoreFromEnv(dir)).name, 'keychain');
+    });
+
+    it('falls back to the encrypted file without a Secret Service', async () => {
+      process.env.FAKE_SECRET_TOOL_FAIL = '1';
+
+      assert.equal((await sessionStoreFromEnv(dir)).name, 'encrypted-file');
+    });
+
+    it('honours OPENGIG_SESSION_STORE', async () => {
+      process.env.OPENGIG_SESSION_STORE = 'file';
+      assert.equal((await sessionStoreFromEnv(dir)).name, 'encrypted-file');
+
+      process.env.OPENGIG_SESSION_STORE = 'vault';
+      await assert.rejects(sessionStoreFromEnv(dir), /Unknown OPENGIG_SESSION_STORE "vault"/);
+    });
+  });
+
+  describe('migratePlaintextSession', () => {
+    for (const legacyFile of ['supabase_session.json', 'session.json']) {
+      it(`moves ${legacyFile} into the store and deletes it`, async () => {
+        writeFileSync(join(dir, legacyFile), JSON.stringify(session));
+        const store = new EncryptedFileSessionStore(dir);
+
+        await migratePlaintextSession(store, dir);
+
+        assert.deepEqual(await store.load(), session);
+        assert.equal(existsSync(join(dir, legacyFile)), false);
+      });
+    }
+
+    it('keeps a session already in the store', async () => {
+      const store = new EncryptedFileSessionStore(dir);
+      await store.save(session);
+      writeFileSync(join(dir, 'supabase_session.json'), JSON.stringify({ ...session, refresh_token: 'old' }));
+
+      await migratePlaintextSession(store, dir);
+
+      assert.equal((await store.load())?.refresh_token, 'refresh');
+      assert.equal(existsSync(join(dir, 'supabase_session.json')), false);
+    });
+
+    it('skips unreadable legacy files', async () => {
+      writeFileSync(join(dir, 'supabase_session.json'), 'not json');
+      writeFileSync(join(dir, 'session.json'), JSON.stringify(session));
+      const store = new EncryptedFileSessionStore(dir);
+
+      await migratePlaintextSession(store, dir);
+
+      assert.deepEqual(await store.load(), session);
+      assert.equal(existsSync(join(dir, 'supabase_session.json')), false);
+      assert.equal(existsSync(join(dir, 'session.json')), false);
+    });
+  });
+});